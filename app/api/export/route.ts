@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { disclaimers } from '@/lib/guardrails';
+import { jurisdictionFromEnv } from '@/lib/predict';
+import {
+  buildReport,
+  exportContentTypes,
+  exportFormats,
+  renderCsv,
+  renderMarkdown,
+  reportFilename,
+  reportInputSchema,
+  type ExportFormat,
+} from '@/lib/report';
+import { renderPdf } from '@/lib/reportPdf';
+
+// POST /api/export?format=pdf|md|csv
+async function handlePost(req: NextRequest) {
+  const format = (req.nextUrl.searchParams.get('format') ?? 'pdf') as ExportFormat;
+  if (!exportFormats.includes(format)) {
+    return apiError('INVALID_INPUT', { message: `Unknown export format. Use one of: ${exportFormats.join(', ')}.` });
+  }
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = reportInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid recommendation.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+
+  const report = buildReport(parsed.data, disclaimers[jurisdictionFromEnv()]);
+  let content: string | Buffer;
+  try {
+    content =
+      format === 'pdf' ? await renderPdf(report) : format === 'md' ? renderMarkdown(report) : renderCsv(report);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('INTERNAL_ERROR', { message: message || 'Failed to build the export.' });
+  }
+  return new NextResponse(typeof content === 'string' ? content : new Uint8Array(content), {
+    headers: {
+      'Content-Type': exportContentTypes[format],
+      'Content-Disposition': `attachment; filename="${reportFilename(report, format)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Downloadable report of a recommendation. The body is the recommendation as
+ * the form holds it (profile, result, plan, model, template and guardrail
+ * report, the same shape as a history entry without its name, prompt and
+ * provider). `format` picks a printable PDF with the inputs, recommendation,
+ * year-by-year projection and disclaimer; the same report as Markdown; or the
+ * projection alone as CSV. All three are built from one report (see
+ * lib/report.ts), in English, with amounts in the profile's currency. The
+ * disclaimer is the recommendation's own, or the one for
+ * GUARDRAIL_JURISDICTION when it has none.
+ */
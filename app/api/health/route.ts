@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getGenerationLimiter } from '@/lib/generationLimiter';
+import { getProvider, type ProviderHealth } from '@/lib/llm';
+import { getLogger } from '@/lib/logger';
+
+// GET /api/health
+export async function GET() {
+  let provider: ProviderHealth & { name?: string; model?: string };
+  try {
+    const llm = getProvider();
+    provider = { name: llm.name, model: llm.model, ...(await llm.health()) };
+  } catch (error) {
+    // createProvider throws on a misconfigured LLM_PROVIDER
+    getLogger().error('Health check failed', { error });
+    provider = { status: 'down', message: error instanceof Error ? error.message : 'Provider unavailable.' };
+  }
+  if (provider.status !== 'ok') {
+    getLogger().warn('Health check: not ready', { provider: provider.status, message: provider.message });
+  }
+  return NextResponse.json(
+    {
+      status: provider.status,
+      provider,
+      generations: getGenerationLimiter().stats(),
+      uptimeSeconds: Math.round(process.uptime()),
+    },
+    { status: provider.status === 'ok' ? 200 : 503, headers: { 'Cache-Control': 'no-store' } },
+  );
+}
+
+/**
+ * Readiness of the backend: 200 with `status: "ok"` when the configured LLM
+ * provider can generate, otherwise 503 with `status: "starting"` (e.g. the
+ * Python workers are still loading the model) or `"down"` and a `message`.
+ * For the python provider this starts the worker pool if no request has yet
+ * and reports its worker counts; for openai it lists the endpoint's models
+ * and reports configured models the endpoint doesn't list. Unlike the other
+ * API routes it needs no API key and isn't rate limited, so load balancers
+ * and orchestrators can probe it.
+ */
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess, type ApiClient } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { historyRenameSchema } from '@/lib/history';
+import { getHistoryStore, historyOwner } from '@/lib/historyStore';
+
+type Params = { params: Promise<{ id: string }> };
+
+// PATCH /api/history/:id
+async function handlePatch(req: NextRequest, { params }: Params, client: ApiClient) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = historyRenameSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid name.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+  try {
+    const entry = await getHistoryStore().rename(historyOwner(req, client).owner, id, parsed.data.name);
+    if (!entry) {
+      return apiError('NOT_FOUND', { message: 'History entry not found.' });
+    }
+    return NextResponse.json(entry);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to save history.' });
+  }
+}
+export const PATCH = withApiAccess(handlePatch);
+
+// DELETE /api/history/:id
+async function handleDelete(req: NextRequest, { params }: Params, client: ApiClient) {
+  const { id } = await params;
+  try {
+    if (!(await getHistoryStore().remove(historyOwner(req, client).owner, id))) {
+      return apiError('NOT_FOUND', { message: 'History entry not found.' });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to save history.' });
+  }
+}
+export const DELETE = withApiAccess(handleDelete);
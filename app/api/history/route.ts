@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess, type ApiClient } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { historyEntryInputSchema } from '@/lib/history';
+import { getHistoryStore, historyOwner } from '@/lib/historyStore';
+
+// GET /api/history
+async function handleGet(req: NextRequest, _context: unknown, client: ApiClient) {
+  const { owner, remember } = historyOwner(req, client);
+  try {
+    return remember(NextResponse.json({ entries: await getHistoryStore().list(owner) }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to read history.' });
+  }
+}
+export const GET = withApiAccess(handleGet);
+
+// POST /api/history
+async function handlePost(req: NextRequest, _context: unknown, client: ApiClient) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = historyEntryInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid history entry.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+  const { owner, remember } = historyOwner(req, client);
+  try {
+    const entry = await getHistoryStore().add(owner, parsed.data);
+    return remember(NextResponse.json(entry, { status: 201 }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to save history.' });
+  }
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Recommendation history, kept in a JSON file on the server (see
+ * lib/historyStore.ts, HISTORY_FILE). The form saves every completed run here
+ * and falls back to localStorage when this route is unavailable, e.g. on a
+ * read-only filesystem.
+ *
+ * Entries are private to whoever saved them: requests with an API key see
+ * that key's entries, and browsers see their own, told apart by an httpOnly
+ * `history_owner` cookie set on first use.
+ */
@@ -0,0 +1,68 @@
+import { getApiAccess, withApiAccess } from '@/lib/apiAccess';
+import { getGenerationLimiter } from '@/lib/generationLimiter';
+import { getMetrics, type Sample } from '@/lib/metrics';
+import { existingPythonWorkerPool } from '@/lib/python/workerPool';
+import { getResponseCache } from '@/lib/responseCache';
+
+const { registry } = getMetrics();
+
+registry.collected('investgpt_generations_active', 'Generations running now.', 'gauge', () => [
+  { value: getGenerationLimiter().stats().active },
+]);
+registry.collected('investgpt_generations_queued', 'Requests waiting for a generation slot.', 'gauge', () => [
+  { value: getGenerationLimiter().stats().queued },
+]);
+registry.collected('investgpt_python_workers', 'Python worker processes by state.', 'gauge', () => {
+  const stats = existingPythonWorkerPool()?.stats();
+  if (!stats) return [];
+  return (['alive', 'ready', 'busy'] as const).map((state) => ({ labels: { state }, value: stats[state] }));
+});
+registry.collected('investgpt_python_queue_depth', 'Jobs waiting for a free Python worker.', 'gauge', () => {
+  const stats = existingPythonWorkerPool()?.stats();
+  return stats ? [{ value: stats.queued }] : [];
+});
+registry.collected('investgpt_python_worker_restarts_total', 'Python workers restarted after exiting.', 'counter', () => {
+  const stats = existingPythonWorkerPool()?.stats();
+  return stats ? [{ value: stats.restarts }] : [];
+});
+registry.collected('investgpt_response_cache_entries', 'Responses held in the in-memory cache.', 'gauge', () => [
+  { value: getResponseCache().stats().entries },
+]);
+
+// Per API key; callers without a key are summed as "anonymous" so client IPs
+// don't become series
+function usageSamples(counter: 'requests' | 'rateLimited'): Sample[] {
+  const totals = new Map<string, number>();
+  for (const [id, usage] of Object.entries(getApiAccess().allUsage())) {
+    const client = id.startsWith('key:') ? id.slice(4) : 'anonymous';
+    totals.set(client, (totals.get(client) ?? 0) + usage[counter]);
+  }
+  return [...totals].map(([client, value]) => ({ labels: { client }, value }));
+}
+registry.collected('investgpt_api_client_requests_total', 'API requests by API key.', 'counter', () =>
+  usageSamples('requests'),
+);
+registry.collected('investgpt_api_client_rate_limited_total', 'Requests turned away with a 429, by API key.', 'counter', () =>
+  usageSamples('rateLimited'),
+);
+
+// GET /api/metrics
+async function handleGet() {
+  return new Response(registry.render(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+// Not rate limited, so scraping doesn't use up a caller's requests
+export const GET = withApiAccess(handleGet, { rateLimit: false });
+
+/**
+ * Server metrics in the Prometheus text format, for scraping: API request
+ * counts by route, method and status; request and generation latency
+ * histograms; failed requests by error category (invalid_request,
+ * unauthorized, rate_limited, rejected_output, bad_output, unavailable,
+ * timeout, cancelled, internal, ...); generation slots in use and queued;
+ * Python worker counts, queue depth and restarts; response cache size; and
+ * per-API-key usage. Counters are kept in memory and reset when the server
+ * restarts. Like the other API routes it goes through lib/apiAccess.ts, so a
+ * scraper may need an API key, but scrapes are not rate limited.
+ */
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { generationBounds, resolveGenerationOptions } from '@/lib/generationOptions';
+import { getProvider } from '@/lib/llm';
+
+// GET /api/models
+async function handleGet() {
+  try {
+    const provider = getProvider();
+    return NextResponse.json({
+      provider: provider.name,
+      models: provider.models,
+      defaults: resolveGenerationOptions({}, provider.model),
+      bounds: generationBounds,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('INTERNAL_ERROR', { message: message || 'Internal server error.' });
+  }
+}
+export const GET = withApiAccess(handleGet);
+
+/**
+ * The generation settings a /api/predict request may send as `options`: the
+ * models the configured provider offers (the first is the default), the
+ * default value of every option, and the bounds the server enforces. The
+ * form's advanced panel is built from this.
+ */
@@ -1,73 +1,88 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { acquireGenerationSlot } from '@/lib/generationLimiter';
+import { getProvider } from '@/lib/llm';
+import { getLogger } from '@/lib/logger';
+import {
+  parsePredictRequest,
+  predictCacheKey,
+  runPrediction,
+  type PredictOutcome,
+  type PredictResponse,
+} from '@/lib/predict';
+import { cacheModeFromRequest, getResponseCache } from '@/lib/responseCache';
 
-// Helper to call the Python script and get the result
-async function callPythonGenerate(prompt: string): Promise<{ result?: string; error?: string }> {
-  return new Promise((resolve) => {
+// POST /api/predict
+async function handlePost(req: NextRequest) {
+  try {
+    let body: unknown;
     try {
-      const py = spawn('python', ['generate.py']);
-      let output = '';
-      let errorOutput = '';
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+    }
+    const parsed = parsePredictRequest(body, getProvider());
+    if (!parsed.ok) {
+      const { error, ...details } = parsed.error;
+      return apiError('INVALID_INPUT', { message: error, details });
+    }
 
-      py.stdout.on('data', (data) => {
-        output += data.toString();
-      });
-      py.stderr.on('data', (data) => {
-        // Optionally log stderr for debugging
-        errorOutput += data.toString();
-      });
-      py.on('close', () => {
-        try {
-          // The Python script may output multiple lines; parse the last valid JSON
-          const lines = output.trim().split(/\r?\n/);
-          for (let i = lines.length - 1; i >= 0; i--) {
-            try {
-              const parsed = JSON.parse(lines[i]);
-              resolve(parsed);
-              return;
-            } catch {}
-          }
-          resolve({ error: 'No valid JSON output from Python script.' });
-        } catch (e: any) {
-          resolve({ error: e.message || 'Failed to parse Python output.' });
-        }
-      });
-      py.on('error', (err) => {
-        resolve({ error: err.message });
-      });
-      // Send prompt as JSON to Python script via stdin
-      py.stdin.write(JSON.stringify({ prompt }) + '\n');
-      py.stdin.end();
-    } catch (e: any) {
-      resolve({ error: e.message });
+    const cacheMode = cacheModeFromRequest(req);
+    const cache = getResponseCache<PredictResponse>();
+    const cacheKey = predictCacheKey(parsed.request, getProvider());
+    if (cacheMode === 'purge') await cache.delete(cacheKey);
+    if (cacheMode === 'default') {
+      const cached = await cache.get(cacheKey);
+      if (cached) return NextResponse.json(cached, { headers: { 'X-Cache': 'HIT' } });
     }
-  });
-}
 
-// POST /api/predict
-export async function POST(req: NextRequest) {
-  try {
-    const { prompt } = await req.json();
-    if (!prompt || typeof prompt !== 'string') {
-      return NextResponse.json({ error: 'Prompt is required.' }, { status: 400 });
+    const slot = await acquireGenerationSlot(req.signal);
+    if (!slot.ok) {
+      return apiError(slot.code, { message: slot.error, headers: slot.headers });
     }
-    const result = await callPythonGenerate(prompt);
-    if (result.error) {
-      return NextResponse.json({ error: result.error }, { status: 500 });
+    let outcome: PredictOutcome;
+    try {
+      outcome = await runPrediction(getProvider(), parsed.request, { signal: req.signal, deadline: slot.deadline });
+    } finally {
+      slot.release();
     }
-    return NextResponse.json({ result: result.result });
-  } catch (error: any) {
-    return NextResponse.json({ error: error.message || 'Internal server error.' }, { status: 500 });
+    if (!outcome.ok) {
+      return apiError(outcome.code, { message: outcome.error, details: outcome.details });
+    }
+    if (cacheMode !== 'bypass') await cache.set(cacheKey, outcome.response);
+    return NextResponse.json(outcome.response, {
+      headers: { 'X-Cache': cacheMode === 'bypass' ? 'BYPASS' : 'MISS' },
+    });
+  } catch (error) {
+    getLogger().error('Prediction failed', { error });
+    const message = error instanceof Error ? error.message : '';
+    return apiError('INTERNAL_ERROR', { message: message || 'Internal server error.' });
   }
 }
+export const POST = withApiAccess(handlePost);
 
 /**
- * This API route proxies prompt requests to a local Python script (generate.py).
- * The Python script loads a Hugging Face model on CPU and generates text.
+ * Generates an investment recommendation for `{ profile, format?, options? }`.
+ * The profile is validated with the form's schema (lib/profile.ts) and the
+ * prompt built on the server from a versioned template (lib/prompts.ts,
+ * PROMPT_TEMPLATE); `options` tunes the generation (lib/generationOptions.ts).
+ * With `"format": "plan"` the model is asked for a JSON plan, validated and
+ * repaired (lib/plan.ts). The output is cleaned up (lib/postprocess.ts) and
+ * checked by the compliance guardrails (lib/guardrails.ts); see
+ * runPrediction in lib/predict.ts.
+ *
+ * A successful response carries `result`, `plan` for plans, the `provider`,
+ * `model`, `template`, `prompt` and resolved `options`, and the `guardrails`
+ * report with the disclaimer to show. Errors use the shared envelope and codes
+ * of lib/errors.ts; a 502 INVALID_OUTPUT carries the `raw` model output.
  *
- * To install dependencies for the Python script:
- *   pip install transformers torch
+ * See also:
+ *   lib/llm/index.ts           providers (LLM_PROVIDER) and their settings
+ *   lib/generationLimiter.ts   concurrency limit, queue and deadline
+ *   lib/responseCache.ts       response cache, X-Cache and ?cache=bypass|purge
+ *   lib/apiAccess.ts           API keys and rate limits
+ *   lib/logger.ts              request logging, with /api/metrics and /api/health
  *
- * To run the API, ensure generate.py is in the project root and accessible.
- * The API will call the script for each request and return the generated text.
+ * /api/predict/stream is the streaming variant.
  */
@@ -0,0 +1,144 @@
+import { NextRequest } from 'next/server';
+import { errorCategory, routeLabel, withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { apiErrorBody, errorCatalog, type ErrorCode } from '@/lib/errors';
+import { acquireGenerationSlot } from '@/lib/generationLimiter';
+import { getProvider } from '@/lib/llm';
+import { getLogger } from '@/lib/logger';
+import { getMetrics } from '@/lib/metrics';
+import { parsePredictRequest, predictCacheKey, runPrediction, type PredictResponse } from '@/lib/predict';
+import { cacheModeFromRequest, getResponseCache } from '@/lib/responseCache';
+import { formatSSE } from '@/lib/sse';
+
+const sseHeaders = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+// POST /api/predict/stream
+async function handlePost(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = parsePredictRequest(body, getProvider());
+  if (!parsed.ok) {
+    const { error, ...details } = parsed.error;
+    return apiError('INVALID_INPUT', { message: error, details });
+  }
+
+  const cacheMode = cacheModeFromRequest(req);
+  const cache = getResponseCache<PredictResponse>();
+  const cacheKey = predictCacheKey(parsed.request, getProvider());
+  if (cacheMode === 'purge') await cache.delete(cacheKey);
+  if (cacheMode === 'default') {
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return new Response(formatSSE('done', cached), { headers: { ...sseHeaders, 'X-Cache': 'HIT' } });
+    }
+  }
+  // Caches a completed response and sends it as the `done` event
+  const finish = async (response: PredictResponse, send: (event: string, data: unknown) => void) => {
+    if (cacheMode !== 'bypass') await cache.set(cacheKey, response);
+    send('done', response);
+  };
+
+  // Taken before the stream starts so overload is still a plain 503/504
+  const slot = await acquireGenerationSlot(req.signal);
+  if (!slot.ok) {
+    return apiError(slot.code, { message: slot.error, headers: slot.headers });
+  }
+  const { deadline } = slot;
+
+  // Aborted when the client disconnects or cancels the fetch
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatSSE(event, data)));
+      };
+      // Ends the stream with the error envelope plus the status the error
+      // would have had. The response was a 200, so failures are counted here.
+      const fail = (code: ErrorCode, message?: string, details?: Record<string, unknown>) => {
+        const { status } = errorCatalog[code];
+        const category = errorCategory(status) ?? 'internal';
+        getMetrics().httpErrors.inc({ route: routeLabel(req.nextUrl.pathname), category });
+        getLogger().warn('Stream ended with an error', { status, code, errorCategory: category, error: message });
+        send('error', { ...apiErrorBody(code, message, details), status });
+      };
+      try {
+        const outcome = await runPrediction(getProvider(), parsed.request, {
+          signal: abort.signal,
+          deadline,
+          onToken: (token) => send('token', { token }),
+          onRetry: (attempt, issues) => send('retry', { attempt, issues }),
+        });
+        if (outcome.ok) {
+          await finish(outcome.response, send);
+        } else {
+          fail(outcome.code, outcome.error, outcome.details);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        getLogger().error('Streaming prediction failed', { error });
+        fail('INTERNAL_ERROR', message);
+      } finally {
+        slot.release();
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...sseHeaders, 'X-Cache': cacheMode === 'bypass' ? 'BYPASS' : 'MISS' },
+  });
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Streaming variant of /api/predict. Accepts the same `{ profile, format }`
+ * body, rejects invalid profiles with the same 400 `fieldErrors`, and responds
+ * with Server-Sent Events:
+ *
+ *   event: token  data: {"token": "..."}                                  (repeated)
+ *   event: done   data: {"result", "provider", "model", "template", "prompt"}
+ *   event: error  data: {"error": "...", "code": "...", "retryable": true, "status": 500}
+ *
+ * `token` events carry only generated text, never the prompt, and `done`
+ * carries the cleaned-up text described in /api/predict; degenerate output
+ * ends the stream with an `error` event carrying status 502.
+ *
+ * `error` events carry the error envelope of /api/predict, with the `code`
+ * and details it describes, plus the `status` the error would have had as a
+ * plain response.
+ *
+ * The compliance guardrails of /api/predict apply too: `done` carries the
+ * `guardrails` report, and a rejected recommendation ends the stream with an
+ * `error` event carrying status 422 and the report. Tokens already streamed
+ * are not checked, so clients should show the `done` text in their place.
+ *
+ * With `"format": "plan"`, `done` also carries the validated `plan`. Each
+ * repair attempt is announced with `event: retry  data: {"attempt", "issues"}`
+ * before its tokens, so clients should discard the text streamed so far.
+ *
+ * Closing the connection aborts the generation: the Python provider sends a
+ * cancel line to its worker, which stops generating at the next token.
+ *
+ * Shares the response cache of /api/predict, including its `X-Cache` header
+ * and `?cache=bypass|purge` parameter. A cache hit is answered with a lone
+ * `done` event, without any `token` events.
+ *
+ * Shares the concurrency limit and deadline of /api/predict. Overload is
+ * reported as a regular 503/504 response before the stream opens; a deadline
+ * that passes mid-stream ends it with an `error` event carrying status 504.
+ */
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { currencies, DEFAULT_CURRENCY } from '@/lib/currency';
+import { projectGrowth, riskLevels } from '@/lib/projection';
+
+const projectionRequestSchema = z.object({
+  age: z.number().min(0).optional(),
+  startingSavings: z.number().min(0).optional(),
+  budget: z.number().min(0),
+  riskLevel: z.enum(riskLevels),
+  timeHorizon: z.number().int().min(1).max(50),
+  inflationRate: z.number().min(-0.1).max(0.5).optional(),
+  currency: z.enum(currencies).default(DEFAULT_CURRENCY),
+});
+
+// POST /api/projection
+async function handlePost(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = projectionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid projection input.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+  const { age, startingSavings, budget, riskLevel, timeHorizon, inflationRate, currency } = parsed.data;
+  const projection = projectGrowth({
+    age,
+    startingSavings,
+    monthlyContribution: budget,
+    years: timeHorizon,
+    riskLevel,
+    inflationRate,
+  });
+  return NextResponse.json({ ...projection, currency });
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Deterministic compound-growth projection for the same inputs the form
+ * collects (see lib/projection.ts). Returns a year-by-year schedule of
+ * cumulative contributions, growth and balance, nominal and adjusted for
+ * inflation, using the expected return assumed for the chosen risk level.
+ * Amounts are in the request's `currency` (default ILS), which is echoed back
+ * so clients can format them.
+ */
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { shareTokenSchema, shortShareUrl } from '@/lib/share';
+import { getShareStore } from '@/lib/shareStore';
+
+const shareRequestSchema = z.object({ token: shareTokenSchema });
+
+// POST /api/share
+async function handlePost(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = shareRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid share token.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+  try {
+    const link = await getShareStore().create(parsed.data.token);
+    return NextResponse.json({ id: link.id, url: shortShareUrl(req.nextUrl.origin, link.id) }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to save the link.' });
+  }
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Short links for shared scenarios. The body is `{ token }`, the encoded form
+ * state from a share link's hash (see lib/share.ts); the response is the id
+ * and the short URL, /s/:id, which redirects to the full link. Tokens are
+ * kept as they are, one JSON file per link on the server (lib/shareStore.ts,
+ * SHARE_DIR), and never decoded here. The id is derived from the token, so
+ * sharing the same state again returns the same link.
+ */
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { riskLevels } from '@/lib/projection';
+import { MAX_PATHS, simulate } from '@/lib/simulation';
+
+const simulationRequestSchema = z.object({
+  startingSavings: z.number().min(0).optional(),
+  budget: z.number().min(0),
+  riskLevel: z.enum(riskLevels),
+  timeHorizon: z.number().int().min(1).max(50),
+  targetAmount: z.number().positive().optional(),
+  paths: z.number().int().min(100).max(MAX_PATHS).optional(),
+  seed: z.number().int().min(0).max(2 ** 32 - 1).optional(),
+});
+
+// POST /api/simulation
+async function handlePost(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_INPUT', { message: 'Invalid JSON body.' });
+  }
+  const parsed = simulationRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError('INVALID_INPUT', {
+      message: 'Invalid simulation input.',
+      details: { issues: parsed.error.flatten().fieldErrors },
+    });
+  }
+  const { startingSavings, budget, riskLevel, timeHorizon, targetAmount, paths, seed } = parsed.data;
+  const result = simulate({
+    startingSavings,
+    monthlyContribution: budget,
+    years: timeHorizon,
+    riskLevel,
+    targetAmount,
+    paths,
+    seed,
+  });
+  return NextResponse.json(result);
+}
+export const POST = withApiAccess(handlePost);
+
+/**
+ * Monte Carlo simulation of the form inputs (see lib/simulation.ts). Runs on
+ * the server so thousands of paths never block the browser; `paths` is capped
+ * at MAX_PATHS so one run can't stall other requests for long. Returns the
+ * 10th/50th/90th percentile balance for each year and, when `targetAmount` is
+ * given, the probability of reaching it by the end of `timeHorizon`. Pass the
+ * returned `seed` back to reproduce a run exactly.
+ */
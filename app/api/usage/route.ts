@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiAccess, withApiAccess, type ApiClient } from '@/lib/apiAccess';
+
+// GET /api/usage
+async function handleGet(_req: NextRequest, _context: unknown, client: ApiClient) {
+  return NextResponse.json({
+    client: client.keyName ? { key: client.keyName } : { ip: client.ip },
+    limit: client.limit,
+    usage: getApiAccess().usageFor(client.id),
+  });
+}
+export const GET = withApiAccess(handleGet);
+
+/**
+ * Usage counters for the caller: the API key sent with the request, or the
+ * caller's IP address when there is none ("direct" when the app isn't behind
+ * a trusted proxy; see TRUST_PROXY in lib/apiAccess.ts). `usage.requests` counts every
+ * request seen, including this one, and `usage.rateLimited` those turned away
+ * with a 429. Counters are kept in memory and reset when the server restarts.
+ */
@@ -3,6 +3,10 @@ import { Space_Grotesk } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { I18nProvider } from "@/components/I18nProvider";
+import { LanguageToggle } from "@/components/LanguageToggle";
+import { localeDirection } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/requestLocale";
 
 const spaceGrotesk = Space_Grotesk({ subsets: ["latin"], weight: ["400", "700"] });
 
@@ -11,13 +15,14 @@ export const metadata: Metadata = {
   description: "Get personalized investment strategies powered by AI",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const locale = await getRequestLocale();
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={locale} dir={localeDirection(locale)} suppressHydrationWarning>
       <body 
         className={`${spaceGrotesk.className} min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-900 dark:to-gray-800 dark:text-white`}
         suppressHydrationWarning
@@ -28,10 +33,13 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <div className="relative min-h-screen">
-            <ThemeToggle />
-            {children}
-          </div>
+          <I18nProvider initialLocale={locale}>
+            <div className="relative min-h-screen">
+              <LanguageToggle />
+              <ThemeToggle />
+              {children}
+            </div>
+          </I18nProvider>
         </ThemeProvider>
       </body>
     </html>
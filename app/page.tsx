@@ -1,14 +1,17 @@
 import { UserForm } from "@/components/UserForm"
+import { messages } from "@/lib/i18n"
+import { getRequestLocale } from "@/lib/requestLocale"
 
-export default function Home() {
+export default async function Home() {
+  const t = messages[await getRequestLocale()]
   return (
     <main className="flex min-h-screen flex-col items-center justify-between p-24">
          <div className="z-10 max-w-5xl w-full items-center justify-between text-sm">
         <h1 className="text-4xl font-bold text-center mb-8 text-gray-900 dark:text-white">
-          InvestGPT
+          {t.page.title}
         </h1>
         <p className="text-center mb-12 text-gray-600 dark:text-gray-300">
-          Get personalized investment recommendations based on your goals and preferences
+          {t.page.subtitle}
         </p>
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8">
           <UserForm />
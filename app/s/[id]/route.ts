@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/apiAccess';
+import { apiError } from '@/lib/apiError';
+import { SHARE_HASH_PARAM } from '@/lib/share';
+import { getShareStore } from '@/lib/shareStore';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /s/:id
+async function handleGet(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  try {
+    const link = await getShareStore().get(id);
+    if (!link) {
+      return apiError('NOT_FOUND', { message: 'This share link does not exist or has expired.' });
+    }
+    return NextResponse.redirect(new URL(`/#${SHARE_HASH_PARAM}=${link.token}`, req.nextUrl.origin));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    return apiError('STORAGE_ERROR', { message: message || 'Failed to read the link.' });
+  }
+}
+export const GET = withApiAccess(handleGet);
+
+/**
+ * Short share link created by POST /api/share. Redirects to the form with the
+ * stored state in the URL hash, where UserForm picks it up. Counted against
+ * the caller's rate limit like the API routes, and fails with the same error
+ * envelope: NOT_FOUND for an unknown or expired link, STORAGE_ERROR when the
+ * store can't be read.
+ */
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { generationBounds, type GenerationOptions, type GenerationOptionsInput } from "@/lib/generationOptions";
+import { format } from "@/lib/i18n";
+
+interface AdvancedOptionsProps {
+  value: GenerationOptionsInput;
+  onChange: (value: GenerationOptionsInput) => void;
+}
+
+interface ModelsResponse {
+  models: string[];
+  defaults: GenerationOptions;
+}
+
+type NumericOption = "maxTokens" | "temperature" | "topP" | "seed";
+
+const numericFields: { name: NumericOption; step: number; min: number; max: number }[] = [
+  { name: "maxTokens", step: 1, ...generationBounds.maxTokens },
+  { name: "temperature", step: 0.1, ...generationBounds.temperature },
+  { name: "topP", step: 0.05, ...generationBounds.topP },
+  { name: "seed", step: 1, ...generationBounds.seed },
+];
+
+// Stop sequences are typed comma-separated, with "\n" standing for a newline
+const parseStop = (text: string) =>
+  text
+    .split(",")
+    .map((s) => s.trim().replace(/\\n/g, "\n"))
+    .filter(Boolean);
+const formatStop = (stop: string[] = []) => stop.map((s) => s.replace(/\n/g, "\\n")).join(", ");
+
+// Collapsible panel for power users to pick the model and sampling settings.
+// Empty fields fall back to the server's defaults, shown as placeholders.
+export function AdvancedOptions({ value, onChange }: AdvancedOptionsProps) {
+  const { t } = useI18n();
+  const [available, setAvailable] = useState<ModelsResponse | null>(null);
+  const [stopText, setStopText] = useState(formatStop(value.stop));
+
+  useEffect(() => {
+    fetch("/api/models")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setAvailable)
+      .catch(() => {});
+  }, []);
+
+  function setOption<K extends keyof GenerationOptionsInput>(name: K, option: GenerationOptionsInput[K]) {
+    const next = { ...value, [name]: option };
+    if (option === undefined) delete next[name];
+    onChange(next);
+  }
+
+  return (
+    <details className="rounded border border-gray-200 dark:border-gray-700 p-4">
+      <summary className="cursor-pointer font-semibold text-gray-900 dark:text-white">{t.advanced.title}</summary>
+      <div className="grid gap-4 mt-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>{t.advanced.model}</Label>
+          <Select
+            value={value.model ?? available?.defaults.model ?? ""}
+            onValueChange={(model) => setOption("model", model === available?.defaults.model ? undefined : model)}
+            disabled={!available}
+          >
+            <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 dark:text-white">
+              <SelectValue placeholder={t.advanced.defaultModel} />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+              {available?.models.map((model) => (
+                <SelectItem key={model} value={model}>
+                  {model}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {numericFields.map(({ name, step, min, max }) => (
+          <div key={name} className="space-y-2">
+            <Label htmlFor={`option-${name}`}>{t.advanced[name]}</Label>
+            <Input
+              id={`option-${name}`}
+              type="number"
+              step={step}
+              min={min}
+              max={max}
+              placeholder={name === "seed" ? t.advanced.randomSeed : String(available?.defaults[name] ?? "")}
+              value={value[name] ?? ""}
+              onChange={(e) => setOption(name, e.target.value === "" ? undefined : Number(e.target.value))}
+              className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="option-stop">{t.advanced.stop}</Label>
+          <Input
+            id="option-stop"
+            placeholder={t.advanced.stopPlaceholder}
+            value={stopText}
+            onChange={(e) => {
+              setStopText(e.target.value);
+              const stop = parseStop(e.target.value);
+              setOption("stop", stop.length ? stop : undefined);
+            }}
+            className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 dark:text-white"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {format(t.advanced.stopHint, { count: generationBounds.stop.maxCount })}
+          </p>
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="mt-4"
+        onClick={() => {
+          setStopText("");
+          onChange({});
+        }}
+      >
+        {t.advanced.useDefaults}
+      </Button>
+    </details>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/I18nProvider";
+import { exportFormats, type ExportFormat, type ReportInput } from "@/lib/report";
+
+interface ExportButtonsProps {
+  recommendation: ReportInput;
+}
+
+// Filename from the route's Content-Disposition header
+const attachmentName = (res: Response, format: ExportFormat) =>
+  res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `investgpt.${format}`;
+
+// Downloads the recommendation as a PDF report, Markdown, or CSV of the
+// projection. The server builds every format, so they match each other.
+export function ExportButtons({ recommendation }: ExportButtonsProps) {
+  const { t } = useI18n();
+  const [exporting, setExporting] = useState<ExportFormat>();
+  const [error, setError] = useState("");
+
+  async function handleExport(format: ExportFormat) {
+    setExporting(format);
+    setError("");
+    try {
+      const res = await fetch(`/api/export?format=${format}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(recommendation),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.export.failed);
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachmentName(res, format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : t.export.failed);
+    } finally {
+      setExporting(undefined);
+    }
+  }
+
+  return (
+    <div className="mt-4 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-500 dark:text-gray-400">{t.export.label}</span>
+        {exportFormats.map((format) => (
+          <Button
+            key={format}
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={exporting !== undefined}
+            onClick={() => handleExport(format)}
+          >
+            {exporting === format ? t.export.exporting : t.export.formats[format]}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
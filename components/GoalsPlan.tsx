@@ -0,0 +1,65 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { Currency } from "@/lib/currency";
+import { goalDisplayName, type GoalAllocation } from "@/lib/goals";
+import { format } from "@/lib/i18n";
+import type { InvestmentPlan } from "@/lib/plan";
+import { formatCurrency } from "@/lib/utils";
+
+interface GoalsPlanProps {
+  allocations: GoalAllocation[];
+  // The plan's per-goal recommendations, in the same order as the goals
+  recommendations?: InvestmentPlan["goals"];
+  currency?: Currency;
+}
+
+// Each goal's share of the budget and where it is projected to end up, with
+// the model's recommendation for it once there is one.
+export function GoalsPlan({ allocations, recommendations, currency }: GoalsPlanProps) {
+  const { t, locale, numberLocale } = useI18n();
+  const money = (value: number) => formatCurrency(value, currency, numberLocale);
+
+  return (
+    <ul className="space-y-4 text-sm">
+      {allocations.map((goal, i) => (
+        <li key={i} className="border-b border-gray-100 dark:border-gray-700 pb-3 last:border-0">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="font-semibold">{goalDisplayName(goal.goal, locale)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {format(t.goalsPlan.inYears, { years: goal.timeHorizon, priority: t.priorities[goal.priority].toLowerCase() })}
+            </p>
+          </div>
+          <dl className="grid grid-cols-3 gap-3 mt-2 tabular-nums">
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">{t.goalsPlan.monthly}</dt>
+              <dd className="font-semibold">{money(goal.monthly)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">{t.goalsPlan.projected}</dt>
+              <dd className="font-semibold">{money(goal.final.balance)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">{t.goalsPlan.target}</dt>
+              <dd>
+                {goal.targetAmount === undefined ? "—" : money(goal.targetAmount)}
+                {goal.onTrack !== undefined && (
+                  <span
+                    className={`block text-xs ${goal.onTrack ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                  >
+                    {goal.onTrack
+                      ? t.goalsPlan.onTrack
+                      : `${t.goalsPlan.shortfall} · ${format(t.goalsPlan.needs, { amount: money(goal.required ?? 0) })}`}
+                  </span>
+                )}
+              </dd>
+            </div>
+          </dl>
+          {recommendations?.[i] && (
+            <p className="mt-2 text-gray-700 dark:text-gray-200">{recommendations[i].recommendation}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
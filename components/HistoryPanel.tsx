@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { StoredHistoryEntry } from "@/lib/historyClient";
+import { format } from "@/lib/i18n";
+import { formatCurrency } from "@/lib/utils";
+
+interface HistoryPanelProps {
+  entries: StoredHistoryEntry[];
+  activeId?: string;
+  disabled?: boolean;
+  onOpen: (entry: StoredHistoryEntry) => void;
+  onRerun: (entry: StoredHistoryEntry) => void;
+  onRename: (entry: StoredHistoryEntry, name: string) => void;
+  onDelete: (entry: StoredHistoryEntry) => void;
+}
+
+export function HistoryPanel({ entries, activeId, disabled, onOpen, onRerun, onRename, onDelete }: HistoryPanelProps) {
+  const { t, numberLocale } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  function saveName(entry: StoredHistoryEntry) {
+    if (draftName.trim()) onRename(entry, draftName.trim());
+    setEditingId(null);
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t.history.empty}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {entries.map((entry) => (
+        <li key={entry.id} className={`py-3 ${entry.id === activeId ? "bg-blue-50 dark:bg-gray-700/50 -mx-2 px-2 rounded" : ""}`}>
+          {editingId === entry.id ? (
+            // Not a <form>: the panel is rendered inside UserForm's form
+            <div className="flex gap-2">
+              <Input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    saveName(entry);
+                  }
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                autoFocus
+                className="h-8"
+              />
+              <Button type="button" size="sm" onClick={() => saveName(entry)}>{t.history.save}</Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>{t.actions.cancel}</Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium">{entry.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(entry.createdAt).toLocaleString(numberLocale)} ·{" "}
+                  {format(t.history.perMonth, { amount: formatCurrency(entry.profile.budget, entry.profile.currency, numberLocale) })} ·{" "}
+                  {entry.model}
+                  {entry.source === "local" && ` · ${t.history.savedLocally}`}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" size="sm" variant="ghost" onClick={() => onOpen(entry)} disabled={disabled}>{t.history.open}</Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => onRerun(entry)} disabled={disabled}>{t.history.rerun}</Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(entry.id);
+                    setDraftName(entry.name);
+                  }}
+                >
+                  {t.history.rename}
+                </Button>
+                <Button type="button" size="sm" variant="ghost" className="text-red-600 dark:text-red-400" onClick={() => onDelete(entry)}>
+                  {t.history.delete}
+                </Button>
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
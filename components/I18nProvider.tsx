@@ -0,0 +1,52 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  LOCALE_COOKIE,
+  localeDirection,
+  messages,
+  numberLocale,
+  type Locale,
+  type Messages,
+} from "@/lib/i18n";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  // Strings for the current locale
+  t: Messages;
+  // Passed to Intl formatting, e.g. "he-IL"
+  numberLocale: string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Holds the UI language. The server picks the initial locale from the cookie,
+// so the first render already has the right strings and text direction.
+export function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const router = useRouter();
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    document.documentElement.lang = next;
+    document.documentElement.dir = localeDirection(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    // Re-renders server components, such as the page heading, in the new language
+    router.refresh();
+  }, [router]);
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t: messages[locale], numberLocale: numberLocale(locale) }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { InvestmentPlan as Plan } from "@/lib/plan";
+
+export function InvestmentPlan({ plan }: { plan: Plan }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-6">
+      <p className="text-gray-700 dark:text-gray-200">{plan.summary}</p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-start text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-2 font-medium">{t.plan.columns.assetClass}</th>
+            <th className="py-2 font-medium w-1/3">{t.plan.columns.allocation}</th>
+            <th className="py-2 font-medium">{t.plan.columns.instruments}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.allocations.map((allocation) => (
+            <tr key={allocation.assetClass} className="border-b border-gray-100 dark:border-gray-700 align-top">
+              <td className="py-3 font-medium">{allocation.assetClass}</td>
+              <td className="py-3 pe-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-2 flex-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                    <div className="h-full bg-blue-600" style={{ width: `${allocation.percentage}%` }} />
+                  </div>
+                  <span className="w-12 text-end tabular-nums">{allocation.percentage}%</span>
+                </div>
+              </td>
+              <td className="py-3 text-gray-600 dark:text-gray-300">{allocation.instruments.join(", ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <h3 className="font-semibold mb-1">{t.plan.rebalancing}</h3>
+        <p className="text-gray-600 dark:text-gray-300">{t.plan.cadences[plan.rebalancing]}</p>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-1">{t.plan.rationale}</h3>
+        <p className="text-gray-600 dark:text-gray-300 whitespace-pre-line">{plan.rationale}</p>
+      </div>
+
+      {plan.warnings.length > 0 && (
+        <div className="p-3 rounded border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950/40">
+          <h3 className="font-semibold mb-1 text-amber-800 dark:text-amber-300">{t.plan.warnings}</h3>
+          <ul className="list-disc ps-5 text-amber-900 dark:text-amber-200 space-y-1">
+            {plan.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
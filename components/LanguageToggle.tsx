@@ -0,0 +1,19 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/I18nProvider"
+
+export function LanguageToggle() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => setLocale(locale === "he" ? "en" : "he")}
+      className="fixed top-4 right-16 h-9 rounded-full border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+    >
+      {t.switchLanguage}
+    </Button>
+  )
+}
@@ -0,0 +1,435 @@
+"use client";
+
+import { useFieldArray, useFormContext, type ControllerRenderProps, type FieldPath } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GoalsPlan } from "@/components/GoalsPlan";
+import { useI18n } from "@/components/I18nProvider";
+import { allocateBudget, goalDisplayName } from "@/lib/goals";
+import { format } from "@/lib/i18n";
+import {
+  assetClasses,
+  emergencyFundLevels,
+  goalPriorities,
+  highInterestDebts,
+  investableBalance,
+  investmentGoals,
+  MAX_ADDITIONAL_GOALS,
+  MAX_DEBTS,
+  type AssetClass,
+  type EmergencyFundLevel,
+  type GoalPriority,
+  type Profile,
+} from "@/lib/profile";
+import { formatCurrency } from "@/lib/utils";
+
+// The profile wizard's steps, in order. The basics step is rendered by
+// UserForm itself; `fields` lists what Next validates before moving on.
+export const profileSteps = [
+  { id: "basics", fields: ["age", "currency", "startingSavings", "budget", "goal", "riskLevel", "timeHorizon", "targetAmount"] },
+  { id: "goals", fields: ["goalPriority", "additionalGoals"] },
+  { id: "finances", fields: ["monthlyIncome", "debts", "emergencyFund", "dependents"] },
+  { id: "holdings", fields: ["holdings"] },
+] as const satisfies readonly { id: string; fields: readonly (keyof Profile)[] }[];
+
+export type ProfileStepId = (typeof profileSteps)[number]["id"];
+
+const inputClass =
+  "bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11";
+const labelClass = "text-gray-700 dark:text-gray-200 font-medium text-base";
+const descriptionClass = "text-gray-500 dark:text-gray-400 text-sm";
+
+// Number inputs hold "" while empty, like the basics step
+function numberInputProps(field: ControllerRenderProps<Profile, FieldPath<Profile>>, parse = parseFloat) {
+  return {
+    ...field,
+    type: "number",
+    value: field.value === undefined ? "" : (field.value as number | ""),
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+      field.onChange(e.target.value === "" ? "" : parse(e.target.value)),
+  };
+}
+
+function PrioritySelect({ value, onChange }: { value?: GoalPriority; onChange: (value: GoalPriority) => void }) {
+  const { t } = useI18n();
+  return (
+    <Select onValueChange={(priority) => onChange(priority as GoalPriority)} value={value ?? "high"}>
+      <SelectTrigger className={inputClass}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+        {goalPriorities.map((priority) => (
+          <SelectItem key={priority} value={priority} className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">
+            {t.priorities[priority]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Goals besides the main one, and how the monthly budget is split across all
+// of them
+export function GoalsStep() {
+  const { t, locale } = useI18n();
+  const form = useFormContext<Profile>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "additionalGoals" });
+  const profile = form.watch();
+  const allocations = profile.riskLevel && profile.goal ? allocateBudget(profile) : [];
+
+  return (
+    <div className="space-y-8">
+      <FormField
+        control={form.control}
+        name="goalPriority"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className={labelClass}>{t.goalsPlan.priority}</FormLabel>
+            {profile.goal && (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {format(t.goalsPlan.mainGoal, { goal: goalDisplayName(profile.goal, locale), years: profile.timeHorizon })}
+              </p>
+            )}
+            <FormControl>
+              <PrioritySelect value={field.value} onChange={field.onChange} />
+            </FormControl>
+            <FormDescription className={descriptionClass}>{t.goalsPlan.priorityDescription}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="space-y-3">
+        <p className={labelClass}>{t.goalsPlan.otherGoals}</p>
+        <p className={descriptionClass}>{t.goalsPlan.otherGoalsDescription}</p>
+        {fields.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">{t.goalsPlan.none}</p>}
+        <datalist id="preset-goals">
+          {investmentGoals.map((goal) => (
+            <option key={goal.value} value={t.goals[goal.value]} />
+          ))}
+        </datalist>
+        {fields.map((goal, index) => (
+          <div key={goal.id} className="grid gap-3 items-start md:grid-cols-[2fr_1fr_1fr_1fr_auto]">
+            <FormField
+              control={form.control}
+              name={`additionalGoals.${index}.goal`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.goalsPlan.goal}</FormLabel>
+                  <FormControl>
+                    <Input {...field} list="preset-goals" placeholder={t.goalsPlan.goalPlaceholder} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`additionalGoals.${index}.targetAmount`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.goalsPlan.targetAmount}</FormLabel>
+                  <FormControl>
+                    <Input {...numberInputProps(field)} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`additionalGoals.${index}.timeHorizon`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.goalsPlan.timeHorizon}</FormLabel>
+                  <FormControl>
+                    <Input {...numberInputProps(field, parseInt)} min={1} max={50} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`additionalGoals.${index}.priority`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.goalsPlan.goalPriority}</FormLabel>
+                  <FormControl>
+                    <PrioritySelect value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="sm" className="md:mt-7 text-red-600 dark:text-red-400" onClick={() => remove(index)}>
+              {t.goalsPlan.remove}
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={fields.length >= MAX_ADDITIONAL_GOALS}
+          onClick={() => append({ goal: "", timeHorizon: 10, priority: "medium" })}
+        >
+          {t.goalsPlan.add}
+        </Button>
+      </div>
+
+      {fields.length > 0 && allocations.length > 0 && (
+        <div className="space-y-3">
+          <p className={labelClass}>{t.goalsPlan.split}</p>
+          <GoalsPlan allocations={allocations} currency={profile.currency} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Income, debts, emergency fund and dependents
+export function FinancesStep() {
+  const { t } = useI18n();
+  const form = useFormContext<Profile>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "debts" });
+  const [debts, riskLevel] = form.watch(["debts", "riskLevel"]);
+  const costly = riskLevel ? highInterestDebts(debts, riskLevel) : [];
+
+  return (
+    <div className="space-y-8">
+      <FormField
+        control={form.control}
+        name="monthlyIncome"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className={labelClass}>{t.fields.monthlyIncome.label}</FormLabel>
+            <FormControl>
+              <Input {...numberInputProps(field)} className={inputClass} />
+            </FormControl>
+            <FormDescription className={descriptionClass}>{t.fields.monthlyIncome.description}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="space-y-3">
+        <p className={labelClass}>{t.fields.debts.label}</p>
+        <p className={descriptionClass}>{t.fields.debts.description}</p>
+        {fields.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">{t.fields.debts.none}</p>}
+        {fields.map((debt, index) => (
+          <div key={debt.id} className="grid gap-3 items-start md:grid-cols-[2fr_1fr_1fr_1fr_auto]">
+            <FormField
+              control={form.control}
+              name={`debts.${index}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.fields.debts.name}</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={t.fields.debts.namePlaceholder} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`debts.${index}.balance`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.fields.debts.balance}</FormLabel>
+                  <FormControl>
+                    <Input {...numberInputProps(field)} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`debts.${index}.interestRate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.fields.debts.interestRate}</FormLabel>
+                  <FormControl>
+                    <Input {...numberInputProps(field)} step={0.1} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`debts.${index}.monthlyPayment`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm">{t.fields.debts.monthlyPayment}</FormLabel>
+                  <FormControl>
+                    <Input {...numberInputProps(field)} className={inputClass} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="sm" className="md:mt-7 text-red-600 dark:text-red-400" onClick={() => remove(index)}>
+              {t.fields.debts.remove}
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={fields.length >= MAX_DEBTS}
+          onClick={() => append({ name: "", balance: 0, interestRate: 0 })}
+        >
+          {t.fields.debts.add}
+        </Button>
+        {riskLevel &&
+          costly.map((debt, index) => (
+            <p key={index} className="text-sm text-amber-700 dark:text-amber-400">
+              {format(t.fields.debts.payDownFirst, {
+                name: debt.name,
+                rate: debt.interestRate,
+                level: t.riskLevels[riskLevel].toLowerCase(),
+              })}
+            </p>
+          ))}
+      </div>
+
+      <FormField
+        control={form.control}
+        name="emergencyFund"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className={labelClass}>{t.fields.emergencyFund.label}</FormLabel>
+            <FormControl>
+              <Select onValueChange={(value) => field.onChange(value as EmergencyFundLevel)} value={field.value ?? ""}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue placeholder={t.fields.emergencyFund.placeholder} />
+                </SelectTrigger>
+                <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+                  {emergencyFundLevels.map((level) => (
+                    <SelectItem key={level} value={level} className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">
+                      {t.emergencyFundLevels[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormControl>
+            <FormDescription className={descriptionClass}>{t.fields.emergencyFund.description}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="dependents"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className={labelClass}>{t.fields.dependents.label}</FormLabel>
+            <FormControl>
+              <Input {...numberInputProps(field, parseInt)} min={0} max={20} className={inputClass} />
+            </FormControl>
+            <FormDescription className={descriptionClass}>{t.fields.dependents.description}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+// Current holdings by asset class, at most one row per class
+export function HoldingsStep() {
+  const { t, numberLocale } = useI18n();
+  const form = useFormContext<Profile>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "holdings" });
+  const [holdings, startingSavings, currency] = form.watch(["holdings", "startingSavings", "currency"]);
+  const used = new Set((holdings ?? []).map((holding) => holding.assetClass));
+  const nextClass = assetClasses.find((assetClass) => !used.has(assetClass));
+
+  return (
+    <div className="space-y-3">
+      <p className={labelClass}>{t.fields.holdings.label}</p>
+      <p className={descriptionClass}>{t.fields.holdings.description}</p>
+      {fields.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">{t.fields.holdings.none}</p>}
+      {fields.map((holding, index) => (
+        <div key={holding.id} className="grid gap-3 items-start md:grid-cols-[2fr_2fr_auto]">
+          <FormField
+            control={form.control}
+            name={`holdings.${index}.assetClass`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">{t.fields.holdings.assetClass}</FormLabel>
+                <FormControl>
+                  <Select onValueChange={(value) => field.onChange(value as AssetClass)} value={field.value}>
+                    <SelectTrigger className={inputClass}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+                      {assetClasses
+                        .filter((assetClass) => assetClass === field.value || !used.has(assetClass))
+                        .map((assetClass) => (
+                          <SelectItem key={assetClass} value={assetClass} className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">
+                            {t.assetClasses[assetClass]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`holdings.${index}.amount`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm">{t.fields.holdings.amount}</FormLabel>
+                <FormControl>
+                  <Input {...numberInputProps(field)} className={inputClass} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="sm" className="md:mt-7 text-red-600 dark:text-red-400" onClick={() => remove(index)}>
+            {t.fields.holdings.remove}
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={!nextClass}
+        onClick={() => nextClass && append({ assetClass: nextClass, amount: 0 })}
+      >
+        {t.fields.holdings.add}
+      </Button>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        {format(t.fields.holdings.total, {
+          amount: formatCurrency(investableBalance({ startingSavings, holdings }), currency, numberLocale),
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { Projection } from "@/lib/projection";
+import type { Currency } from "@/lib/currency";
+import { format } from "@/lib/i18n";
+import { formatCompactCurrency, formatCurrency } from "@/lib/utils";
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+// Stacked bars of contributions vs. growth per year, with the
+// inflation-adjusted balance drawn as a line on top.
+interface ProjectionChartProps {
+  projection: Projection;
+  currency?: Currency;
+}
+
+export function ProjectionChart({ projection, currency }: ProjectionChartProps) {
+  const { t, numberLocale: locale } = useI18n();
+  const { schedule, final } = projection;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(...schedule.map((y) => y.balance), 1);
+  const slot = plotWidth / schedule.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  const x = (index: number) => PADDING.left + index * slot + (slot - barWidth) / 2;
+  const y = (value: number) => PADDING.top + plotHeight - (Math.max(value, 0) / maxValue) * plotHeight;
+  const realLine = schedule
+    .map((year, i) => `${i === 0 ? "M" : "L"}${x(i) + barWidth / 2},${y(year.realBalance)}`)
+    .join(" ");
+  const labelEvery = Math.ceil(schedule.length / 10);
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.projection.balance}</dt>
+          <dd className="text-lg font-semibold">{formatCurrency(final.balance, currency, locale)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.projection.realBalance}</dt>
+          <dd className="text-lg font-semibold text-green-600 dark:text-green-400">{formatCurrency(final.realBalance, currency, locale)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.projection.contributions}</dt>
+          <dd>{formatCurrency(final.contributions, currency, locale)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.projection.growth}</dt>
+          <dd>{formatCurrency(final.growth, currency, locale)}</dd>
+        </div>
+      </dl>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t.projection.chartLabel}>
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <text x={PADDING.left - 6} y={y(maxValue * fraction) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {formatCompactCurrency(maxValue * fraction, currency, locale)}
+            </text>
+          </g>
+        ))}
+        {schedule.map((year, i) => (
+          <g key={year.year}>
+            <title>
+              {format(t.projection.yearTooltip, {
+                year: year.year,
+                balance: formatCurrency(year.balance, currency, locale),
+                contributions: formatCurrency(year.contributions, currency, locale),
+                growth: formatCurrency(year.growth, currency, locale),
+              })}
+            </title>
+            <rect x={x(i)} y={y(year.contributions)} width={barWidth} height={y(0) - y(year.contributions)} className="fill-blue-300 dark:fill-blue-800" />
+            <rect x={x(i)} y={y(year.balance)} width={barWidth} height={y(year.contributions) - y(year.balance)} className="fill-blue-600" />
+            {i % labelEvery === 0 && (
+              <text x={x(i) + barWidth / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                {year.year}
+              </text>
+            )}
+          </g>
+        ))}
+        <path d={realLine} fill="none" strokeWidth={2} className="stroke-green-500" />
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-300">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-blue-300 dark:bg-blue-800" /> {t.projection.legend.contributions}</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-blue-600" /> {t.projection.legend.growth}</span>
+        <span className="flex items-center gap-1"><span className="h-0.5 w-4 bg-green-500" /> {t.projection.legend.realBalance}</span>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-blue-600 dark:text-blue-400">{t.projection.schedule}</summary>
+        <table className="w-full mt-2 tabular-nums">
+          <thead>
+            <tr className="text-start text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-1 font-medium">{t.projection.columns.year}</th>
+              <th className="py-1 font-medium text-end">{t.projection.columns.contributions}</th>
+              <th className="py-1 font-medium text-end">{t.projection.columns.growth}</th>
+              <th className="py-1 font-medium text-end">{t.projection.columns.balance}</th>
+              <th className="py-1 font-medium text-end">{t.projection.columns.realBalance}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.map((year) => (
+              <tr key={year.year} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="py-1">{year.age === undefined ? year.year : format(t.projection.yearWithAge, { year: year.year, age: year.age })}</td>
+                <td className="py-1 text-end">{formatCurrency(year.contributions, currency, locale)}</td>
+                <td className="py-1 text-end">{formatCurrency(year.growth, currency, locale)}</td>
+                <td className="py-1 text-end">{formatCurrency(year.balance, currency, locale)}</td>
+                <td className="py-1 text-end">{formatCurrency(year.realBalance, currency, locale)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {format(t.projection.assumptions, {
+          expectedReturn: (projection.expectedReturn * 100).toFixed(1),
+          inflationRate: (projection.inflationRate * 100).toFixed(1),
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useI18n } from "@/components/I18nProvider";
+import { format } from "@/lib/i18n";
+import { riskQuestions, type RiskAnswers, type RiskAssessment, type RiskQuestionId } from "@/lib/riskProfile";
+
+interface RiskQuestionnaireProps {
+  answers: RiskAnswers;
+  onChange: (answers: RiskAnswers) => void;
+  assessment: RiskAssessment;
+  // Set when the user picked a risk level by hand that differs from the suggestion
+  onApply?: () => void;
+}
+
+const questionIds = Object.keys(riskQuestions) as RiskQuestionId[];
+
+// Optional questions that refine the suggested risk level, with a breakdown
+// of how each answer and the time horizon contributed to the score.
+export function RiskQuestionnaire({ answers, onChange, assessment, onApply }: RiskQuestionnaireProps) {
+  const { t } = useI18n();
+  const q = t.riskQuestionnaire;
+  const answered = questionIds.some((id) => answers[id] !== undefined);
+
+  return (
+    <details className="rounded border border-gray-200 dark:border-gray-700 p-4" open={answered}>
+      <summary className="cursor-pointer font-semibold text-gray-900 dark:text-white">{q.title}</summary>
+      <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{q.description}</p>
+      <div className="grid gap-4 mt-4 md:grid-cols-3">
+        {questionIds.map((id) => {
+          const labels: Record<string, string> = q.answers[id];
+          return (
+            <div key={id} className="space-y-2">
+              <Label>{q.questions[id]}</Label>
+              <Select value={answers[id] ?? ""} onValueChange={(answer) => onChange({ ...answers, [id]: answer })}>
+                <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 dark:text-white">
+                  <SelectValue placeholder={q.placeholder} />
+                </SelectTrigger>
+                <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+                  {riskQuestions[id].map((answer) => (
+                    <SelectItem key={answer} value={answer}>
+                      {labels[answer]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+      {answered && (
+        <div className="mt-4 space-y-1 text-sm">
+          <p className="font-semibold">
+            {format(q.score, { score: assessment.score, level: t.riskLevels[assessment.toleranceLevel].toLowerCase() })}
+          </p>
+          <ul className="list-disc ps-5 text-gray-600 dark:text-gray-300">
+            {assessment.factors.map((factor) => (
+              <li key={factor.id}>
+                {format(q.factor, {
+                  factor: q.factors[factor.id],
+                  answer:
+                    factor.id === "horizon"
+                      ? format(q.horizonAnswer, { years: factor.answer })
+                      : (q.answers[factor.id] as Record<string, string>)[factor.answer],
+                  points: factor.points,
+                  max: factor.maxPoints,
+                })}
+              </li>
+            ))}
+          </ul>
+          {assessment.cappedByHorizon && (
+            <p className="text-amber-700 dark:text-amber-400">
+              {format(q.capped, {
+                level: t.riskLevels[assessment.level].toLowerCase(),
+                years: assessment.factors.find((f) => f.id === "horizon")?.answer ?? "",
+              })}
+            </p>
+          )}
+          {onApply && (
+            <Button type="button" variant="outline" size="sm" className="mt-2" onClick={onApply}>
+              {q.apply}
+            </Button>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
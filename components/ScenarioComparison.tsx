@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { Button } from "@/components/ui/button";
+import { errorCodeOf, type ErrorCode } from "@/lib/errors";
+import type { InvestmentPlan } from "@/lib/plan";
+import { goalDisplayName, listGoals } from "@/lib/goals";
+import { format, type Locale, type Messages } from "@/lib/i18n";
+import { investableBalance, type Profile } from "@/lib/profile";
+import { projectGrowth, type ProjectionYear } from "@/lib/projection";
+import type { RiskAnswers } from "@/lib/riskProfile";
+import { formatCurrency } from "@/lib/utils";
+
+export const MAX_VARIANTS = 4;
+
+export interface ScenarioVariant {
+  id: string;
+  profile: Profile;
+  // Questionnaire answers at the time, restored when the variant is edited
+  riskAnswers?: RiskAnswers;
+}
+
+interface VariantOutcome {
+  loading: boolean;
+  plan?: InvestmentPlan;
+  result?: string;
+  error?: ErrorCode;
+}
+
+interface ScenarioComparisonProps {
+  variants: ScenarioVariant[];
+  onLoad: (variant: ScenarioVariant) => void;
+  onRemove: (variant: ScenarioVariant) => void;
+}
+
+type InputRow = keyof Omit<Messages["comparison"]["rows"], "recommendation">;
+
+// Strings and amounts a row is shown with, for the current locale
+interface Formatters {
+  t: Messages;
+  locale: Locale;
+  money: (value: number, p: Profile) => string;
+}
+
+// Input rows, each rendered the same way for every variant
+const inputRows: { label: InputRow; value: (p: Profile, f: Formatters) => string }[] = [
+  { label: "age", value: (p) => String(p.age) },
+  { label: "startingSavings", value: (p, { money }) => money(p.startingSavings || 0, p) },
+  { label: "budget", value: (p, { money }) => money(p.budget, p) },
+  { label: "goals", value: (p, { locale }) => listGoals(p).map(({ goal }) => goalDisplayName(goal, locale)).join(", ") },
+  { label: "riskLevel", value: (p, { t }) => t.riskLevels[p.riskLevel] },
+  { label: "timeHorizon", value: (p, { t }) => format(t.fields.timeHorizon.value, { years: p.timeHorizon }) },
+  { label: "targetAmount", value: (p, { money }) => (p.targetAmount ? money(p.targetAmount, p) : "—") },
+  { label: "monthlyIncome", value: (p, { money }) => (p.monthlyIncome ? money(p.monthlyIncome, p) : "—") },
+  {
+    label: "debts",
+    value: (p, { money }) => (p.debts?.length ? money(p.debts.reduce((sum, debt) => sum + (debt.balance || 0), 0), p) : "—"),
+  },
+  { label: "holdings", value: (p, { money }) => money(investableBalance(p) - (p.startingSavings || 0), p) },
+];
+
+const outcomeRows: { label: "balance" | "realBalance" | "contributions" | "growth"; value: (y: ProjectionYear) => number }[] = [
+  { label: "balance", value: (y) => y.balance },
+  { label: "realBalance", value: (y) => y.realBalance },
+  { label: "contributions", value: (y) => y.contributions },
+  { label: "growth", value: (y) => y.growth },
+];
+
+const project = ({ profile }: ScenarioVariant) =>
+  projectGrowth({
+    age: profile.age,
+    startingSavings: investableBalance(profile),
+    monthlyContribution: profile.budget,
+    years: profile.timeHorizon,
+    riskLevel: profile.riskLevel,
+  }).final;
+
+// Lines up two to four variants of the form inputs side by side. The first
+// variant is the baseline: differing inputs are highlighted and outcomes show
+// their difference from it, unless the variant uses another currency.
+export function ScenarioComparison({ variants, onLoad, onRemove }: ScenarioComparisonProps) {
+  const { t, locale, numberLocale } = useI18n();
+  const formatters: Formatters = { t, locale, money: (value, p) => formatCurrency(value, p.currency, numberLocale) };
+  const [outcomes, setOutcomes] = useState<Record<string, VariantOutcome>>({});
+  const [baseline] = variants;
+  const finals = variants.map(project);
+  const generating = Object.values(outcomes).some((o) => o.loading);
+
+  // Generates every variant through /api/predict; the server queues them
+  async function handleGenerateAll() {
+    await Promise.all(
+      variants.map(async ({ id, profile }) => {
+        setOutcomes((prev) => ({ ...prev, [id]: { loading: true } }));
+        let outcome: VariantOutcome;
+        try {
+          const res = await fetch("/api/predict", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ profile, format: "plan" }),
+          });
+          const data = await res.json();
+          outcome = res.ok
+            ? { loading: false, plan: data.plan, result: data.result }
+            : { loading: false, error: errorCodeOf(data, res.status) };
+        } catch {
+          outcome = { loading: false, error: "GENERATION_FAILED" };
+        }
+        setOutcomes((prev) => ({ ...prev, [id]: outcome }));
+      })
+    );
+  }
+
+  if (!baseline) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {format(t.comparison.empty, { action: t.actions.addVariant, count: MAX_VARIANTS })}
+      </p>
+    );
+  }
+
+  const changed = "bg-amber-100 dark:bg-amber-900/40 font-semibold";
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm tabular-nums">
+          <thead>
+            <tr className="text-start border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pe-4" />
+              {variants.map((variant, i) => (
+                <th key={variant.id} className="py-2 px-2 font-semibold align-top">
+                  <div>{i === 0 ? t.comparison.baseline : format(t.comparison.scenario, { letter: String.fromCharCode(65 + i) })}</div>
+                  <div className="flex gap-1 mt-1 font-normal">
+                    <Button type="button" size="sm" variant="ghost" className="h-6 px-2" onClick={() => onLoad(variant)}>
+                      {t.comparison.edit}
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" className="h-6 px-2 text-red-600 dark:text-red-400" onClick={() => onRemove(variant)}>
+                      {t.comparison.remove}
+                    </Button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {inputRows.map((row) => (
+              <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                <th className="py-1 pe-4 text-start font-medium text-gray-500 dark:text-gray-400">{t.comparison.rows[row.label]}</th>
+                {variants.map((variant) => {
+                  const value = row.value(variant.profile, formatters);
+                  return (
+                    <td
+                      key={variant.id}
+                      className={`py-1 px-2 rounded ${value !== row.value(baseline.profile, formatters) ? changed : ""}`}
+                    >
+                      {value}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {outcomeRows.map((row) => (
+              <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                <th className="py-1 pe-4 text-start font-medium text-gray-500 dark:text-gray-400">{t.projection[row.label]}</th>
+                {finals.map((final, i) => {
+                  const delta = row.value(final) - row.value(finals[0]);
+                  // Amounts in another currency than the baseline's can't be subtracted
+                  const comparable = variants[i].profile.currency === baseline.profile.currency;
+                  return (
+                    <td key={variants[i].id} className="py-1 px-2">
+                      {formatters.money(row.value(final), variants[i].profile)}
+                      {i > 0 && !comparable && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{t.comparison.otherCurrency}</span>
+                      )}
+                      {i > 0 && comparable && Math.round(delta) !== 0 && (
+                        <span className={`ms-1 text-xs ${delta > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                          {delta > 0 ? "+" : "−"}{formatters.money(Math.abs(delta), variants[i].profile)}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="align-top">
+              <th className="py-2 pe-4 text-start font-medium text-gray-500 dark:text-gray-400">{t.comparison.rows.recommendation}</th>
+              {variants.map((variant) => {
+                const outcome = outcomes[variant.id];
+                return (
+                  <td key={variant.id} className="py-2 px-2 text-xs">
+                    {outcome?.loading && <span className="text-gray-500">{t.actions.generating}</span>}
+                    {outcome?.error && <span className="text-red-600 dark:text-red-400">{t.errors.codes[outcome.error]}</span>}
+                    {outcome?.plan ? (
+                      <div className="space-y-1">
+                        <p>{outcome.plan.summary}</p>
+                        <ul>
+                          {outcome.plan.allocations.map((a) => (
+                            <li key={a.assetClass}>
+                              {a.assetClass}: <strong>{a.percentage}%</strong>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : (
+                      outcome?.result && <p className="whitespace-pre-line">{outcome.result}</p>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <Button type="button" onClick={handleGenerateAll} disabled={generating || variants.length < 2}>
+        {generating ? t.actions.generating : t.comparison.generateAll}
+      </Button>
+    </div>
+  );
+}
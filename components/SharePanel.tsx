@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/components/I18nProvider";
+import { encodeShareState, shareUrl, type ShareState } from "@/lib/share";
+
+interface SharePanelProps {
+  state: ShareState;
+  onClose: () => void;
+}
+
+// Link to the current inputs, optionally with the recommendation, plus a
+// short version of it saved on the server
+export function SharePanel({ state, onClose }: SharePanelProps) {
+  const { t } = useI18n();
+  const [includeRecommendation, setIncludeRecommendation] = useState(true);
+  const [url, setUrl] = useState("");
+  const [shortUrl, setShortUrl] = useState("");
+  const [token, setToken] = useState("");
+  const [shortening, setShortening] = useState(false);
+  const [copied, setCopied] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const shared = includeRecommendation ? state : { ...state, recommendation: undefined };
+    let current = true;
+    encodeShareState(shared).then((encoded) => {
+      if (!current) return;
+      setToken(encoded);
+      setUrl(shareUrl(window.location.origin, encoded));
+      setShortUrl("");
+    });
+    return () => {
+      current = false;
+    };
+  }, [state, includeRecommendation]);
+
+  async function handleShorten() {
+    setShortening(true);
+    setError("");
+    try {
+      const res = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || t.share.failed);
+      setShortUrl(data.url);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : t.share.failed);
+    } finally {
+      setShortening(false);
+    }
+  }
+
+  function handleCopy(link: string) {
+    navigator.clipboard
+      .writeText(link)
+      .then(() => setCopied(link))
+      .catch(() => setError(t.share.copyFailed));
+  }
+
+  const linkRow = (link: string) => (
+    <div className="flex gap-2">
+      <Input readOnly value={link} onFocus={(e) => e.target.select()} className="font-mono text-xs" dir="ltr" />
+      <Button type="button" variant="outline" size="sm" onClick={() => handleCopy(link)} disabled={!link}>
+        {copied === link ? t.share.copied : t.share.copy}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 p-4 rounded border border-gray-200 dark:border-gray-700 space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+        <strong>{t.share.title}</strong>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          {t.share.close}
+        </Button>
+      </div>
+      <p className="text-gray-500 dark:text-gray-400">{t.share.description}</p>
+      {state.recommendation && (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={includeRecommendation}
+            onChange={(e) => setIncludeRecommendation(e.target.checked)}
+          />
+          {t.share.includeRecommendation}
+        </label>
+      )}
+      {linkRow(url)}
+      {shortUrl ? (
+        linkRow(shortUrl)
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={handleShorten} disabled={!token || shortening}>
+          {shortening ? t.share.shortening : t.share.shorten}
+        </Button>
+      )}
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { SimulationResult } from "@/lib/simulation";
+import type { Currency } from "@/lib/currency";
+import { format } from "@/lib/i18n";
+import { formatCompactCurrency, formatCurrency } from "@/lib/utils";
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+// Shaded 10th–90th percentile band with the median path and the target line
+interface SimulationFanChartProps {
+  result: SimulationResult;
+  currency?: Currency;
+}
+
+export function SimulationFanChart({ result, currency }: SimulationFanChartProps) {
+  const { t, numberLocale: locale } = useI18n();
+  const { schedule, targetAmount, successProbability } = result;
+  const final = schedule[schedule.length - 1];
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(final.p90, targetAmount ?? 0, 1);
+  const lastYear = Math.max(schedule.length - 1, 1);
+  const x = (year: number) => PADDING.left + (year / lastYear) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (Math.max(value, 0) / maxValue) * plotHeight;
+
+  const band = [
+    ...schedule.map((s) => `${x(s.year)},${y(s.p90)}`),
+    ...[...schedule].reverse().map((s) => `${x(s.year)},${y(s.p10)}`),
+  ].join(" ");
+  const median = schedule.map((s, i) => `${i === 0 ? "M" : "L"}${x(s.year)},${y(s.p50)}`).join(" ");
+  const labelEvery = Math.ceil(schedule.length / 10);
+
+  return (
+    <div className="space-y-4">
+      {successProbability !== undefined && targetAmount !== undefined && (
+        <p className="text-sm">
+          <span className="text-2xl font-semibold text-green-600 dark:text-green-400">
+            {Math.round(successProbability * 100)}%
+          </span>{" "}
+          {format(t.simulation.chance, { amount: formatCurrency(targetAmount, currency, locale) })}
+        </p>
+      )}
+      <dl className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.simulation.p10}</dt>
+          <dd className="font-semibold">{formatCurrency(final.p10, currency, locale)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.simulation.p50}</dt>
+          <dd className="font-semibold">{formatCurrency(final.p50, currency, locale)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">{t.simulation.p90}</dt>
+          <dd className="font-semibold">{formatCurrency(final.p90, currency, locale)}</dd>
+        </div>
+      </dl>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t.simulation.chartLabel}>
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <text x={PADDING.left - 6} y={y(maxValue * fraction) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {formatCompactCurrency(maxValue * fraction, currency, locale)}
+            </text>
+          </g>
+        ))}
+        {schedule.map((s, i) =>
+          i % labelEvery === 0 ? (
+            <text key={s.year} x={x(s.year)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {s.year}
+            </text>
+          ) : null
+        )}
+        <polygon points={band} className="fill-blue-500/20" />
+        <path d={median} fill="none" strokeWidth={2} className="stroke-blue-600" />
+        {targetAmount !== undefined && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(targetAmount)}
+            y2={y(targetAmount)}
+            strokeDasharray="6 4"
+            strokeWidth={1.5}
+            className="stroke-green-500"
+          />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-300">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-blue-500/20" /> {t.simulation.legend.band}</span>
+        <span className="flex items-center gap-1"><span className="h-0.5 w-4 bg-blue-600" /> {t.simulation.legend.median}</span>
+        {targetAmount !== undefined && (
+          <span className="flex items-center gap-1"><span className="h-0.5 w-4 border-t-2 border-dashed border-green-500" /> {t.simulation.legend.target}</span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {format(t.simulation.basedOn, { paths: result.paths.toLocaleString(locale), seed: result.seed })}
+      </p>
+    </div>
+  );
+}
@@ -1,9 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -23,45 +22,89 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { AdvancedOptions } from "@/components/AdvancedOptions";
+import { ExportButtons } from "@/components/ExportButtons";
+import { InvestmentPlan } from "@/components/InvestmentPlan";
+import { ProjectionChart } from "@/components/ProjectionChart";
+import { RiskQuestionnaire } from "@/components/RiskQuestionnaire";
+import { SharePanel } from "@/components/SharePanel";
+import { SimulationFanChart } from "@/components/SimulationFanChart";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { GoalsPlan } from "@/components/GoalsPlan";
+import { FinancesStep, GoalsStep, HoldingsStep, profileSteps } from "@/components/ProfileSteps";
+import { useI18n } from "@/components/I18nProvider";
+import { MAX_VARIANTS, ScenarioComparison, type ScenarioVariant } from "@/components/ScenarioComparison";
+import { currencies, DEFAULT_CURRENCY, type Currency } from "@/lib/currency";
+import type { GenerationOptionsInput } from "@/lib/generationOptions";
+import type { GuardrailReport } from "@/lib/guardrails";
+import { errorCatalog, errorCodeOf, type ErrorCode } from "@/lib/errors";
+import { allocateBudget } from "@/lib/goals";
+import { defaultHistoryName, type HistoryEntryInput } from "@/lib/history";
+import {
+  deleteHistory,
+  listHistory,
+  renameHistory,
+  saveHistory,
+  type StoredHistoryEntry,
+} from "@/lib/historyClient";
+import { format } from "@/lib/i18n";
+import type { InvestmentPlan as Plan } from "@/lib/plan";
+import { createProfileSchema, investableBalance, investmentGoals, type FieldErrors, type Profile } from "@/lib/profile";
+import type { TemplateRef } from "@/lib/prompts";
+import { projectGrowth } from "@/lib/projection";
+import type { ReportInput } from "@/lib/report";
+import type { SimulationResult } from "@/lib/simulation";
+import { assessRisk, type RiskAnswers } from "@/lib/riskProfile";
+import { decodeShareState, SHARE_HASH_PARAM, type ShareState } from "@/lib/share";
+import { readSSE } from "@/lib/sse";
 
-const formSchema = z.object({
-  age: z.coerce.number().min(0, "Age must be a positive number"),
-  startingSavings: z.coerce.number().min(0, "Starting savings must be a positive number").optional(),
-  budget: z.coerce.number().min(0, "Monthly budget must be a positive number"),
-  goal: z.string().min(1, "Please enter or select an investment goal"),
-  riskLevel: z.enum(["low", "medium", "high"], { required_error: "Please select a risk level" }),
-  timeHorizon: z.number().min(1, "Time horizon must be at least 1 year").max(50, "Maximum time horizon is 50 years"),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const investmentGoals = [
-  { value: "retirement", label: "Retirement Planning" },
-  { value: "house", label: "Buying a House" },
-  { value: "education", label: "Education Fund" },
-  { value: "wealth", label: "Wealth Building" },
-] as const;
-
-const getRecommendedRiskLevel = (timeHorizon: number) => {
-  if (timeHorizon <= 3) return "low";
-  if (timeHorizon <= 7) return "medium";
-  return "high";
-};
-
-// Helper to build the prompt string from form values
-function buildPrompt({ age, budget, riskLevel, goal, timeHorizon }: FormValues): string {
-  return `Create a ${riskLevel}-risk investment strategy for a ${age}-year-old investing ₪${budget} monthly for ${timeHorizon} years. The goal is ${goal.toLowerCase()}.`;
-}
+// Number inputs hold "" while empty; treat that (and NaN) as missing
+const toAmount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
 
 export function UserForm() {
+  const { t, locale } = useI18n();
+  // Index into profileSteps of the wizard step on screen
+  const [step, setStep] = useState(0);
   const [isCustomGoal, setIsCustomGoal] = useState(false);
   const [userSetRisk, setUserSetRisk] = useState(false);
+  // Risk questionnaire answers; they refine the suggested risk level
+  const [riskAnswers, setRiskAnswers] = useState<RiskAnswers>({});
   // State for AI recommendation, loading, and error
   const [recommendation, setRecommendation] = useState('');
+  // Structured plan, set once the streamed output validates on the server
+  const [plan, setPlan] = useState<Plan | null>(null);
+  // Which model and prompt template produced the recommendation
+  const [generatedBy, setGeneratedBy] = useState<{ model: string; template: TemplateRef } | null>(null);
+  // Compliance findings and disclaimer sent with the recommendation
+  const [guardrails, setGuardrails] = useState<GuardrailReport | null>(null);
+  // The finished recommendation with the inputs that produced it, for export
+  const [exportable, setExportable] = useState<ReportInput | null>(null);
+  // Advanced settings sent with every generation; empty means server defaults
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptionsInput>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+  // Why the last generation failed, shown in the UI language with any
+  // server-side details (e.g. invalid options) after it
+  const [generationError, setGenerationError] = useState<{ code: ErrorCode; details: string[] } | null>(null);
+  // State for the Monte Carlo simulation, run on the server on demand
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState('');
+  // Saved runs, newest first; activeHistoryId marks the one on screen
+  const [history, setHistory] = useState<StoredHistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string>();
+  // Scenarios captured for side-by-side comparison, and the one being edited
+  const [variants, setVariants] = useState<ScenarioVariant[]>([]);
+  const [editingVariantId, setEditingVariantId] = useState<string>();
+  // What the share panel links to, while it is open
+  const [sharing, setSharing] = useState<ShareState | null>(null);
+  // Aborts the in-flight streaming request when the user cancels
+  const abortRef = useRef<AbortController | null>(null);
+  // Validation messages follow the UI language
+  const profileSchema = useMemo(() => createProfileSchema(t.validation), [t]);
+  const form = useForm<Profile>({
+    resolver: zodResolver(profileSchema),
     defaultValues: {
       age: 25,
       startingSavings: undefined,
@@ -69,56 +112,399 @@ export function UserForm() {
       goal: "",
       riskLevel: undefined,
       timeHorizon: 10,
+      targetAmount: undefined,
+      currency: DEFAULT_CURRENCY,
+      monthlyIncome: undefined,
+      debts: [],
+      emergencyFund: undefined,
+      dependents: undefined,
+      holdings: [],
+      goalPriority: undefined,
+      additionalGoals: [],
     },
   });
 
   // Watch timeHorizon and riskLevel
   const timeHorizon = form.watch("timeHorizon");
   const riskLevel = form.watch("riskLevel");
+  const [age, startingSavings, budget, holdings] = form.watch(["age", "startingSavings", "budget", "holdings"]);
+  const currency = form.watch("currency") ?? DEFAULT_CURRENCY;
+
+  // Recomputed live as the inputs change; it is cheap and needs no server call
+  const projection = useMemo(() => {
+    const monthlyContribution = toAmount(budget);
+    if (!riskLevel || monthlyContribution === undefined) return null;
+    return projectGrowth({
+      age: toAmount(age),
+      startingSavings: investableBalance({ startingSavings: toAmount(startingSavings), holdings }),
+      monthlyContribution,
+      years: timeHorizon,
+      riskLevel,
+    });
+  }, [age, startingSavings, budget, riskLevel, timeHorizon, holdings]);
+
+  // With more than one goal, the budget split and a projection per goal
+  const additionalGoals = form.watch("additionalGoals");
+  const goalAllocations = additionalGoals?.length && projection ? allocateBudget(form.getValues()) : null;
+
+  const riskAssessment = useMemo(() => assessRisk(riskAnswers, timeHorizon), [riskAnswers, timeHorizon]);
 
   useEffect(() => {
     if (!userSetRisk) {
-      const recommended = getRecommendedRiskLevel(timeHorizon);
-      form.setValue("riskLevel", recommended);
+      form.setValue("riskLevel", riskAssessment.level);
     }
-  }, [timeHorizon, userSetRisk]);
+  }, [riskAssessment, userSetRisk]);
 
-  // Handler for the Generate button
-  async function handleGenerate() {
+  useEffect(() => {
+    listHistory().then(setHistory);
+  }, []);
+
+  // Opens a shared link (#s=…): restores the inputs exactly as they were
+  // shared and shows the shared recommendation, if any, without generating.
+  // The hash is dropped so later edits aren't mistaken for the shared state.
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.hash.slice(1)).get(SHARE_HASH_PARAM);
+    if (!token) return;
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    decodeShareState(token).then((state) => {
+      if (!state) {
+        setError(t.share.invalid);
+        return;
+      }
+      setIsCustomGoal(state.customGoal);
+      setUserSetRisk(state.riskOverride);
+      setRiskAnswers(state.riskAnswers ?? {});
+      form.reset(state.profile);
+      if (state.recommendation) {
+        const { model, template, result, plan, guardrails } = state.recommendation;
+        setRecommendation(result);
+        setPlan(plan ?? null);
+        setGeneratedBy(model && template ? { model, template } : null);
+        setGuardrails(guardrails ?? null);
+        setExportable({ profile: state.profile, ...state.recommendation });
+      }
+    });
+  }, [form, t]);
+
+  // Re-validates fields already showing an error so the message switches
+  // language along with the rest of the form
+  useEffect(() => {
+    const invalid = Object.keys(form.formState.errors) as (keyof Profile)[];
+    if (invalid.length) form.trigger(invalid);
+  }, [form, profileSchema]);
+
+  // Handler for the Generate button; renders tokens as they stream in.
+  // `fresh` skips the server's response cache.
+  async function handleGenerate({ fresh = false }: { fresh?: boolean } = {}) {
+    if (!(await form.trigger())) {
+      revealErrors();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError('');
+    setGenerationError(null);
     setRecommendation('');
+    setPlan(null);
+    setGeneratedBy(null);
+    setGuardrails(null);
+    setExportable(null);
+    setActiveHistoryId(undefined);
+    try {
+      const profile = form.getValues();
+      const res = await fetch(fresh ? '/api/predict/stream?cache=purge' : '/api/predict/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile, format: 'plan', options: generationOptions }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        showFieldErrors(data.fieldErrors);
+        const optionErrors = Object.values(data.optionErrors ?? {}).flat() as string[];
+        setGenerationError({ code: errorCodeOf(data, res.status), details: optionErrors });
+        return;
+      }
+      await readSSE(res.body, ({ event, data }) => {
+        const payload = data as {
+          token?: string;
+          result?: string;
+          plan?: Plan;
+          provider?: string;
+          model?: string;
+          template?: TemplateRef;
+          prompt?: string;
+          guardrails?: GuardrailReport;
+          code?: ErrorCode;
+          status?: number;
+        };
+        if (event === 'token' && payload.token) {
+          setRecommendation((text) => text + payload.token);
+        } else if (event === 'retry') {
+          // The server is asking the model to repair invalid output
+          setRecommendation('');
+        } else if (event === 'done' && payload.result !== undefined) {
+          setRecommendation(payload.result);
+          setPlan(payload.plan ?? null);
+          setGuardrails(payload.guardrails ?? null);
+          if (payload.model && payload.template) {
+            setGeneratedBy({ model: payload.model, template: payload.template });
+          }
+          setExportable({
+            profile,
+            model: payload.model,
+            template: payload.template,
+            result: payload.result,
+            plan: payload.plan ?? null,
+            guardrails: payload.guardrails,
+          });
+          recordRun(profile, {
+            prompt: payload.prompt ?? '',
+            provider: payload.provider ?? '',
+            model: payload.model ?? '',
+            template: payload.template,
+            result: payload.result,
+            plan: payload.plan ?? null,
+            guardrails: payload.guardrails,
+          });
+        } else if (event === 'error') {
+          // Streamed tokens are unchecked until `done`; never leave them on
+          // screen after a failure, e.g. a guardrail rejection
+          setRecommendation('');
+          setPlan(null);
+          setGuardrails(null);
+          setGenerationError({ code: errorCodeOf(payload, payload.status ?? 500), details: [] });
+        }
+      });
+    } catch {
+      // A user cancel keeps whatever text already streamed in
+      if (!controller.signal.aborted) {
+        setGenerationError({ code: 'GENERATION_FAILED', details: [] });
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setLoading(false);
+    }
+  }
+
+  // Persists a completed run; failures only cost the history entry
+  function recordRun(profile: Profile, output: Omit<HistoryEntryInput, "name" | "profile">) {
+    saveHistory({ name: defaultHistoryName({ profile }, locale), profile, ...output })
+      .then((entry) => {
+        setHistory((entries) => [entry, ...entries]);
+        setActiveHistoryId(entry.id);
+      })
+      .catch(() => {});
+  }
+
+  // Puts saved inputs back into the form, including custom-goal mode, the
+  // questionnaire answers they were made with (history entries keep none) and
+  // whether the risk level was picked by hand
+  function restoreInputs(profile: Profile, answers: RiskAnswers = {}) {
+    setIsCustomGoal(!investmentGoals.some((goal) => goal.value === profile.goal));
+    setRiskAnswers(answers);
+    setUserSetRisk(profile.riskLevel !== assessRisk(answers, profile.timeHorizon).level);
+    form.reset(profile);
+  }
+
+  // Handler for the history panel's Open button
+  function handleOpenHistory(entry: StoredHistoryEntry) {
+    handleCancel();
+    restoreInputs(entry.profile);
+    setRecommendation(entry.result);
+    setPlan(entry.plan ?? null);
+    setGeneratedBy(entry.template ? { model: entry.model, template: entry.template } : null);
+    setGuardrails(entry.guardrails ?? null);
+    setExportable(entry);
+    setError('');
+    setGenerationError(null);
+    setActiveHistoryId(entry.id);
+  }
+
+  // Handler for the history panel's Re-run button
+  function handleRerunHistory(entry: StoredHistoryEntry) {
+    restoreInputs(entry.profile);
+    handleGenerate({ fresh: true });
+  }
+
+  function handleRenameHistory(entry: StoredHistoryEntry, name: string) {
+    renameHistory(entry, name)
+      .then(() => setHistory((entries) => entries.map((e) => (e.id === entry.id ? { ...e, name } : e))))
+      .catch(() => setError(t.history.renameFailed));
+  }
+
+  function handleDeleteHistory(entry: StoredHistoryEntry) {
+    deleteHistory(entry)
+      .then(() => setHistory((entries) => entries.filter((e) => e.id !== entry.id)))
+      .catch(() => setError(t.history.deleteFailed));
+  }
+
+  // Handler for the Add to comparison button; replaces the variant being
+  // edited, if any, so its stale recommendation is dropped
+  async function handleAddVariant() {
+    if (!(await form.trigger())) {
+      revealErrors();
+      return;
+    }
+    const variant = { id: crypto.randomUUID(), profile: form.getValues(), riskAnswers };
+    setVariants((current) =>
+      editingVariantId
+        ? current.map((v) => (v.id === editingVariantId ? variant : v))
+        : [...current, variant].slice(0, MAX_VARIANTS)
+    );
+    setEditingVariantId(undefined);
+  }
+
+  // Handler for the Share button. The recommendation is shared along with the
+  // inputs only while they still match the ones it was generated from.
+  async function handleShare() {
+    if (!(await form.trigger())) {
+      revealErrors();
+      return;
+    }
+    const profile = profileSchema.parse(form.getValues());
+    const current =
+      exportable !== null && JSON.stringify(profileSchema.safeParse(exportable.profile).data) === JSON.stringify(profile);
+    setSharing({
+      profile,
+      customGoal: isCustomGoal,
+      riskOverride: userSetRisk,
+      riskAnswers,
+      recommendation: current
+        ? {
+            model: exportable.model,
+            template: exportable.template,
+            result: exportable.result,
+            plan: exportable.plan,
+            guardrails: exportable.guardrails,
+          }
+        : undefined,
+    });
+  }
+
+  function handleLoadVariant(variant: ScenarioVariant) {
+    restoreInputs(variant.profile, variant.riskAnswers);
+    setEditingVariantId(variant.id);
+  }
+
+  function handleRemoveVariant(variant: ScenarioVariant) {
+    setVariants((current) => current.filter((v) => v.id !== variant.id));
+    if (editingVariantId === variant.id) setEditingVariantId(undefined);
+  }
+
+  // Maps server-side validation errors onto the matching FormMessage slots
+  function showFieldErrors(fieldErrors?: FieldErrors) {
+    if (!fieldErrors) return;
+    for (const [name, messages] of Object.entries(fieldErrors)) {
+      if (messages?.length) {
+        form.setError(name as keyof Profile, { type: "server", message: messages[0] });
+      }
+    }
+  }
+
+  // Handler for the Simulate button
+  async function handleSimulate() {
+    setSimulating(true);
+    setSimulationError('');
     try {
       const values = form.getValues();
-      const prompt = buildPrompt(values);
-      const res = await fetch('/api/predict', {
+      const res = await fetch('/api/simulation', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          startingSavings: investableBalance({ startingSavings: toAmount(values.startingSavings), holdings: values.holdings }),
+          budget: toAmount(values.budget),
+          riskLevel: values.riskLevel,
+          timeHorizon: values.timeHorizon,
+          targetAmount: toAmount(values.targetAmount) || undefined,
+        }),
       });
       const data = await res.json();
       if (res.ok) {
-        setRecommendation(data.result);
+        setSimulation(data);
       } else {
-        setError(data.error || 'Failed to generate recommendation.');
+        setSimulationError(data.error || t.errors.simulate);
       }
-    } catch (err: any) {
-      setError(err.message || 'Failed to generate recommendation.');
+    } catch (err) {
+      setSimulationError(err instanceof Error && err.message ? err.message : t.errors.simulate);
     } finally {
-      setLoading(false);
+      setSimulating(false);
+    }
+  }
+
+  // Jumps to the first wizard step with an invalid field, so errors on a
+  // hidden step don't go unnoticed
+  function revealErrors() {
+    const invalid = Object.keys(form.formState.errors);
+    const index = profileSteps.findIndex((s) => s.fields.some((field) => invalid.includes(field)));
+    if (index !== -1) setStep(index);
+  }
+
+  // Moves between wizard steps. Going forward validates the steps being left,
+  // so errors are shown where they can be fixed.
+  async function handleStepChange(index: number) {
+    if (index > step) {
+      const fields = profileSteps.slice(step, index).flatMap((s) => s.fields);
+      if (!(await form.trigger(fields))) return;
     }
+    setStep(index);
+  }
+
+  // Handler for the Cancel button; aborting the fetch also stops the model
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
+
+  // Handler for the Reset button: stops any generation and clears the inputs
+  // and everything produced from them, back to the first step
+  function handleReset() {
+    handleCancel();
+    setRecommendation('');
+    setPlan(null);
+    setGeneratedBy(null);
+    setGuardrails(null);
+    setExportable(null);
+    setSharing(null);
+    setError('');
+    setGenerationError(null);
+    setSimulation(null);
+    setSimulationError('');
+    setActiveHistoryId(undefined);
+    setUserSetRisk(false);
+    setRiskAnswers({});
+    setStep(0);
+    form.reset();
   }
 
   return (
     <Form {...form}>
       <form className="space-y-10">
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-10 border border-gray-200 dark:border-gray-700">
+        {/* Wizard progress; any step can be revisited */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-500 dark:text-gray-400 me-2">
+            {format(t.steps.progress, { step: step + 1, count: profileSteps.length })}
+          </span>
+          {profileSteps.map(({ id }, index) => (
+            <Button
+              key={id}
+              type="button"
+              size="sm"
+              variant={index === step ? "default" : "outline"}
+              onClick={() => handleStepChange(index)}
+            >
+              {t.steps[id]}
+            </Button>
+          ))}
+        </div>
+        {/* The first step is hidden and the others unmounted when not shown; the form keeps unmounted fields' values */}
+        <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg p-10 border border-gray-200 dark:border-gray-700 ${step === 0 ? "" : "hidden"}`}>
           <FormField
             control={form.control}
             name="age"
             render={({ field }) => (
               <FormItem className="space-y-3">
-                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">🧑 Age</FormLabel>
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.age.label}</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -132,7 +518,35 @@ export function UserForm() {
                   />
                 </FormControl>
                 <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                  Your current age
+                  {t.fields.age.description}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem className="space-y-3 mt-8">
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.currency.label}</FormLabel>
+                <FormControl>
+                  <Select onValueChange={(value) => field.onChange(value as Currency)} value={field.value ?? DEFAULT_CURRENCY}>
+                    <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
+                      {currencies.map((code) => (
+                        <SelectItem key={code} value={code} className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">
+                          {t.currencies[code]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
+                  {t.fields.currency.description}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -144,12 +558,12 @@ export function UserForm() {
             name="startingSavings"
             render={({ field }) => (
               <FormItem className="space-y-3 mt-8">
-                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">Do you already have savings to invest?</FormLabel>
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.startingSavings.label}</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
                     {...field}
-                    placeholder="e.g. 5000"
+                    placeholder={t.fields.startingSavings.placeholder}
                     value={field.value === undefined ? '' : field.value}
                     className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11"
                     onChange={(e) => {
@@ -159,7 +573,7 @@ export function UserForm() {
                   />
                 </FormControl>
                 <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                  Optional: Add your current savings to improve accuracy
+                  {t.fields.startingSavings.description}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -171,7 +585,7 @@ export function UserForm() {
             name="budget"
             render={({ field }) => (
               <FormItem className="space-y-3 mt-8">
-                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">💰 Monthly Investment Budget</FormLabel>
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.budget.label}</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -185,7 +599,7 @@ export function UserForm() {
                   />
                 </FormControl>
                 <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                  How much you can invest each month
+                  {t.fields.budget.description}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -198,7 +612,7 @@ export function UserForm() {
             render={({ field }) => (
               <FormItem className="space-y-3 mt-8">
                 <div className="flex justify-between items-center">
-                  <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">🎯 Investment Goal</FormLabel>
+                  <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.goal.label}</FormLabel>
                   <Button
                     type="button"
                     variant="ghost"
@@ -209,25 +623,25 @@ export function UserForm() {
                     }}
                     className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
                   >
-                    {isCustomGoal ? "Use Preset Goals" : "Enter Custom Goal"}
+                    {isCustomGoal ? t.fields.goal.usePresets : t.fields.goal.enterCustom}
                   </Button>
                 </div>
                 <FormControl>
                   {isCustomGoal ? (
                     <Input
                       {...field}
-                      placeholder="Enter your investment goal"
+                      placeholder={t.fields.goal.customPlaceholder}
                       className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11"
                     />
                   ) : (
-                    <Select onValueChange={field.onChange} defaultValue={field.value || ""}>
+                    <Select onValueChange={field.onChange} value={field.value || ""}>
                       <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11">
-                        <SelectValue placeholder="Select your investment goal" />
+                        <SelectValue placeholder={t.fields.goal.presetPlaceholder} />
                       </SelectTrigger>
                       <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
                         {investmentGoals.map((goal) => (
                           <SelectItem key={goal.value} value={goal.value} className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">
-                            {goal.label}
+                            {t.goals[goal.value]}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -235,7 +649,7 @@ export function UserForm() {
                   )}
                 </FormControl>
                 <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                  {isCustomGoal ? "Describe your specific investment goal" : "What are you investing for?"}
+                  {isCustomGoal ? t.fields.goal.customDescription : t.fields.goal.presetDescription}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -247,44 +661,62 @@ export function UserForm() {
             control={form.control}
             name="riskLevel"
             render={({ field }) => {
-              const recommended = getRecommendedRiskLevel(timeHorizon);
+              const recommended = riskAssessment.level;
               return (
                 <FormItem className="space-y-3 mt-8">
-                  <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">⚖️ Risk Level</FormLabel>
+                  <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.riskLevel.label}</FormLabel>
                   <FormControl>
                     <Select
                       onValueChange={value => {
                         field.onChange(value);
+                        setUserSetRisk(true);
                       }}
                       value={field.value || ""}
                       defaultValue={field.value || ""}
                     >
                       <SelectTrigger className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11">
-                        <SelectValue placeholder="Select risk level" />
+                        <SelectValue placeholder={t.fields.riskLevel.placeholder} />
                       </SelectTrigger>
                       <SelectContent className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg">
-                        <SelectItem value="low" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">Low</SelectItem>
-                        <SelectItem value="medium" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">Medium</SelectItem>
-                        <SelectItem value="high" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">High</SelectItem>
+                        <SelectItem value="low" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">{t.riskLevels.low}</SelectItem>
+                        <SelectItem value="medium" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">{t.riskLevels.medium}</SelectItem>
+                        <SelectItem value="high" className="hover:bg-blue-50 dark:hover:bg-gray-700 cursor-pointer">{t.riskLevels.high}</SelectItem>
                       </SelectContent>
                     </Select>
                   </FormControl>
                   <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                    Select your preferred risk level for investments
-                    <span className="ml-2 text-green-600 dark:text-green-400 font-semibold">(Recommended: {recommended} for {timeHorizon} years)</span>
+                    {t.fields.riskLevel.description}
+                    <span className="ms-2 text-green-600 dark:text-green-400 font-semibold">
+                      {format(t.fields.riskLevel.recommended, { level: t.riskLevels[recommended], years: timeHorizon })}
+                    </span>
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               );
             }}
           />
+          <div className="mt-4">
+            <RiskQuestionnaire
+              answers={riskAnswers}
+              onChange={setRiskAnswers}
+              assessment={riskAssessment}
+              onApply={
+                userSetRisk && riskLevel !== riskAssessment.level
+                  ? () => {
+                      form.setValue("riskLevel", riskAssessment.level);
+                      setUserSetRisk(false);
+                    }
+                  : undefined
+              }
+            />
+          </div>
 
           <FormField
             control={form.control}
             name="timeHorizon"
             render={({ field }) => (
               <FormItem className="space-y-3 mt-8">
-                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">⏳ Time Horizon</FormLabel>
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.timeHorizon.label}</FormLabel>
                 <FormControl>
                   <Slider
                     min={1}
@@ -299,39 +731,200 @@ export function UserForm() {
                   className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mt-2"
                   suppressHydrationWarning
                 >
-                  <span>1 year</span>
-                  <span>{field.value} years</span>
-                  <span>30 years</span>
+                  <span>{t.fields.timeHorizon.minimum}</span>
+                  <span>{format(t.fields.timeHorizon.value, { years: field.value })}</span>
+                  <span>{t.fields.timeHorizon.maximum}</span>
                 </div>
                 <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
-                  How long you plan to invest
+                  {t.fields.timeHorizon.description}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="targetAmount"
+            render={({ field }) => (
+              <FormItem className="space-y-3 mt-8">
+                <FormLabel className="text-gray-700 dark:text-gray-200 font-medium text-base">{t.fields.targetAmount.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...field}
+                    placeholder={t.fields.targetAmount.placeholder}
+                    value={field.value === undefined ? '' : field.value}
+                    className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 dark:text-white h-11"
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      field.onChange(value === "" ? '' : parseInt(value));
+                    }}
+                  />
+                </FormControl>
+                <FormDescription className="text-gray-500 dark:text-gray-400 text-sm">
+                  {t.fields.targetAmount.description}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {step > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-10 border border-gray-200 dark:border-gray-700">
+            {profileSteps[step].id === "goals" && <GoalsStep />}
+            {profileSteps[step].id === "finances" && <FinancesStep />}
+            {profileSteps[step].id === "holdings" && <HoldingsStep />}
+          </div>
+        )}
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            {t.steps.back}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => handleStepChange(step + 1)} disabled={step === profileSteps.length - 1}>
+            {t.steps.next}
+          </Button>
+        </div>
+        <div className="mt-6">
+          <AdvancedOptions value={generationOptions} onChange={setGenerationOptions} />
         </div>
         {/* Generate and Reset buttons */}
         <div className="flex gap-4 mt-6">
-          <Button type="button" onClick={handleGenerate} disabled={loading}>
-            {loading ? "Generating..." : "Generate"}
+          <Button type="button" onClick={() => handleGenerate()} disabled={loading}>
+            {loading ? t.actions.generating : t.actions.generate}
+          </Button>
+          {loading && (
+            <Button type="button" variant="outline" onClick={handleCancel}>
+              {t.actions.cancel}
+            </Button>
+          )}
+          <Button type="button" variant="secondary" onClick={handleReset}>
+            {t.actions.reset}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleAddVariant}
+            disabled={!editingVariantId && variants.length >= MAX_VARIANTS}
+          >
+            {editingVariantId ? t.actions.updateVariant : t.actions.addVariant}
           </Button>
-          <Button type="button" variant="secondary" onClick={() => { setRecommendation(''); setError(''); form.reset(); }}>
-            Reset
+          <Button type="button" variant="outline" onClick={handleShare}>
+            {t.share.button}
           </Button>
         </div>
-        {/* Display recommendation or error */}
-        {recommendation && (
-          <div className="mt-6">
+        {sharing && <SharePanel state={sharing} onClose={() => setSharing(null)} />}
+        <div className="grid gap-6 mt-6 lg:grid-cols-2">
+          {/* Display the plan, or the raw output while it streams in */}
+          {(plan || recommendation) && (
             <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
-              <strong>AI Recommendation:</strong>
-              <div className="mt-2 whitespace-pre-line">{recommendation}</div>
+              <strong>{t.sections.recommendation}</strong>
+              {plan ? (
+                <div className="mt-4">
+                  <InvestmentPlan plan={plan} />
+                </div>
+              ) : (
+                <div className="mt-2 whitespace-pre-line font-mono text-xs text-gray-600 dark:text-gray-300">{recommendation}</div>
+              )}
+              {generatedBy && (
+                <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                  {format(t.sections.generatedBy, {
+                    model: generatedBy.model,
+                    template: generatedBy.template.id,
+                    version: generatedBy.template.version,
+                  })}
+                </p>
+              )}
+              {guardrails && (
+                <div className="mt-4 space-y-2 text-xs">
+                  {guardrails.findings.some((f) => f.action === "rewrite") && (
+                    <p className="text-amber-700 dark:text-amber-400">
+                      {t.sections.wordingAdjusted}
+                    </p>
+                  )}
+                  <p className="text-gray-500 dark:text-gray-400">{guardrails.disclaimer}</p>
+                </div>
+              )}
+              {exportable && <ExportButtons recommendation={exportable} />}
             </div>
-          </div>
-        )}
+          )}
+          {/* Deterministic projection of the current inputs */}
+          {projection && (
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
+              <strong>{t.sections.projection}</strong>
+              <div className="mt-4">
+                <ProjectionChart projection={projection} currency={currency} />
+              </div>
+            </div>
+          )}
+          {/* Each goal's share of the budget, with the plan's advice per goal */}
+          {goalAllocations && (
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
+              <strong>{t.sections.goals}</strong>
+              <div className="mt-4">
+                <GoalsPlan allocations={goalAllocations} recommendations={plan?.goals} currency={currency} />
+              </div>
+            </div>
+          )}
+          {/* Monte Carlo simulation of the current inputs */}
+          {projection && (
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
+              <div className="flex justify-between items-center">
+                <strong>{t.sections.simulation}</strong>
+                <Button type="button" variant="outline" size="sm" onClick={handleSimulate} disabled={simulating}>
+                  {simulating ? t.actions.simulating : simulation ? t.actions.runAgain : t.actions.runSimulation}
+                </Button>
+              </div>
+              {simulation ? (
+                <div className="mt-4">
+                  <SimulationFanChart result={simulation} currency={currency} />
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  {t.sections.simulationHint}
+                </p>
+              )}
+              {simulationError && (
+                <div className="mt-4 text-red-600 dark:text-red-400">{simulationError}</div>
+              )}
+            </div>
+          )}
+        </div>
         {error && (
           <div className="mt-4 text-red-600 dark:text-red-400">{error}</div>
         )}
+        {generationError && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-red-600 dark:text-red-400">
+            <span>{[t.errors.codes[generationError.code], ...generationError.details].join(' ')}</span>
+            {errorCatalog[generationError.code].retryable && !loading && (
+              <Button type="button" variant="outline" size="sm" onClick={() => handleGenerate()}>
+                {t.errors.retry}
+              </Button>
+            )}
+          </div>
+        )}
+        {/* Side-by-side scenario comparison */}
+        <div className="mt-6 p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
+          <strong>{t.sections.comparison}</strong>
+          <div className="mt-2">
+            <ScenarioComparison variants={variants} onLoad={handleLoadVariant} onRemove={handleRemoveVariant} />
+          </div>
+        </div>
+        {/* Saved scenarios */}
+        <div className="mt-6 p-4 bg-gray-100 dark:bg-gray-800 rounded shadow">
+          <strong>{t.sections.history}</strong>
+          <div className="mt-2">
+            <HistoryPanel
+              entries={history}
+              activeId={activeHistoryId}
+              disabled={loading}
+              onOpen={handleOpenHistory}
+              onRerun={handleRerunHistory}
+              onRename={handleRenameHistory}
+              onDelete={handleDeleteHistory}
+            />
+          </div>
+        </div>
       </form>
     </Form>
   );
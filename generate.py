@@ -4,46 +4,236 @@ generate.py - Simple text generation script for InvestGPT backend
 
 Usage:
     echo '{"prompt": "Your prompt here"}' | python generate.py
+    echo '{"prompt": "...", "model": "distilgpt2", "max_tokens": 64, "temperature": 0.7,
+           "top_p": 0.95, "seed": 42, "stop": ["\\n\\n"]}' | python generate.py
 
 Dependencies:
     pip install transformers torch
 
-- Loads the model once at startup (CPU only)
-- Accepts a JSON object with a 'prompt' key via stdin
-- Outputs a JSON object with a 'result' key to stdout
+- Loads the PYTHON_MODEL model once at startup (CPU only); other models named
+  in a request's 'model' key are loaded on first use and kept loaded
+- Prints {"ready": true} once the model is loaded
+- Accepts one JSON object per line with a 'prompt' key (and an optional 'id') via stdin
+- Optional generation settings per line: 'model', 'max_tokens' (new tokens,
+  excluding the prompt), 'temperature' (0 means greedy), 'top_p', 'seed' and
+  'stop' (a list of strings; the output is cut at the first one generated)
+- Outputs one JSON object per line with a 'result' or 'error' key to stdout,
+  echoing the request 'id' so callers can match responses to requests
+- Error lines also carry a 'code' from the app's error catalog (lib/errors.ts):
+  INVALID_INPUT for a malformed line or empty prompt, MODEL_UNAVAILABLE for a
+  model that fails to load and GENERATION_FAILED for anything else. If the
+  startup model fails to load, the error line has no 'id' and the script exits 1
+- With "stream": true, also outputs {"id": ..., "token": "..."} lines as text is
+  generated, before the final 'result' line; tokens carry only the generated
+  text, while 'result' starts with the prompt as usual
+- A {"id": ..., "cancel": true} line stops the generation with that id early;
+  its 'result' line then carries the partial text and "cancelled": true
+- Keeps serving lines until stdin is closed, so it can run as a long-lived worker
 """
+import os
 import sys
 import json
-from transformers import pipeline, AutoModelForCausalLM, AutoTokenizer
+import queue
+import threading
+from transformers import (
+    pipeline,
+    AutoModelForCausalLM,
+    AutoTokenizer,
+    StoppingCriteria,
+    StoppingCriteriaList,
+    TextIteratorStreamer,
+    set_seed,
+)
+
+MODEL_NAME = os.environ.get("PYTHON_MODEL") or "EleutherAI/gpt-neo-125M"  # or "distilgpt2"
+DEFAULT_MAX_TOKENS = 256
+
+# Loaded pipelines by model name
+generators = {}
+
+# Request ids queued or running, and those the caller asked to cancel; shared
+# with the stdin reader thread
+pending_ids = set()
+cancelled_ids = set()
+cancelled_lock = threading.Lock()
+
+
+def respond(payload, request_id=None):
+    """Write one JSON line to stdout and flush so the caller sees it immediately."""
+    if request_id is not None:
+        payload["id"] = request_id
+    print(json.dumps(payload), flush=True)
+
+
+def is_cancelled(request_id):
+    with cancelled_lock:
+        return request_id in cancelled_ids
+
+
+def load_generator(model_name):
+    if model_name not in generators:
+        print(f"Loading model {model_name}...", file=sys.stderr)
+        tokenizer = AutoTokenizer.from_pretrained(model_name)
+        model = AutoModelForCausalLM.from_pretrained(model_name)
+        generators[model_name] = pipeline("text-generation", model=model, tokenizer=tokenizer, device=-1)
+        print("Model loaded.", file=sys.stderr)
+    return generators[model_name]
+
+
+class StopSequenceCriteria(StoppingCriteria):
+    """Stops generation once the new text contains one of the stop strings."""
+
+    def __init__(self, tokenizer, prompt_length, stop):
+        self.tokenizer = tokenizer
+        self.prompt_length = prompt_length
+        self.stop = stop
+
+    def __call__(self, input_ids, scores, **kwargs):
+        text = self.tokenizer.decode(input_ids[0][self.prompt_length:], skip_special_tokens=True)
+        return any(s in text for s in self.stop)
+
+
+def cut_at_stop(text, prompt, stop):
+    """Cuts the generated part of the text at the first stop string."""
+    if not stop or not text.startswith(prompt):
+        return text
+    generated = text[len(prompt):]
+    cuts = [generated.find(s) for s in stop if s in generated]
+    return prompt + generated[: min(cuts)] if cuts else text
+
+
+def generation_kwargs(data):
+    """Translates the request's settings into pipeline keyword arguments."""
+    kwargs = {"max_new_tokens": int(data.get("max_tokens") or DEFAULT_MAX_TOKENS)}
+    temperature = data.get("temperature")
+    if temperature is not None and temperature > 0:
+        kwargs.update(do_sample=True, temperature=float(temperature))
+        if data.get("top_p") is not None:
+            kwargs["top_p"] = float(data["top_p"])
+    else:
+        kwargs["do_sample"] = False
+    return kwargs
+
+
+class CancelCriteria(StoppingCriteria):
+    """Stops generation as soon as a cancel line arrives for this request."""
+
+    def __init__(self, request_id):
+        self.request_id = request_id
+
+    def __call__(self, input_ids, scores, **kwargs):
+        return is_cancelled(self.request_id)
+
+
+def read_requests(requests):
+    """Read stdin on a background thread so cancel lines arrive mid-generation."""
+    for line in sys.stdin:
+        try:
+            data = json.loads(line)
+        except Exception as e:
+            requests.put({"invalid": str(e)})
+            continue
+        if not isinstance(data, dict):
+            requests.put({"invalid": "expected an object"})
+            continue
+        with cancelled_lock:
+            if data.get("cancel"):
+                # A cancel for a job that already finished has nothing to stop
+                if data.get("id") in pending_ids:
+                    cancelled_ids.add(data.get("id"))
+                continue
+            pending_ids.add(data.get("id"))
+        requests.put(data)
+    requests.put(None)
+
+
+def generate(generator, prompt, request_id, stream, data):
+    stop = [s for s in data.get("stop") or [] if s]
+    stopping = StoppingCriteriaList([CancelCriteria(request_id)])
+    if stop:
+        prompt_length = len(generator.tokenizer(prompt)["input_ids"])
+        stopping.append(StopSequenceCriteria(generator.tokenizer, prompt_length, stop))
+    kwargs = generation_kwargs(data)
+    if data.get("seed") is not None:
+        set_seed(int(data["seed"]))
+    if not stream:
+        output = generator(prompt, num_return_sequences=1, stopping_criteria=stopping, **kwargs)
+        return cut_at_stop(output[0]["generated_text"], prompt, stop) if output else ""
+
+    # The pipeline blocks until it finishes, so run it on a thread and forward
+    # decoded text from the streamer as it is produced. The prompt isn't
+    # streamed back; only the final result line starts with it.
+    streamer = TextIteratorStreamer(generator.tokenizer, skip_prompt=True)
+    outcome = {}
+
+    def run():
+        try:
+            output = generator(
+                prompt,
+                num_return_sequences=1,
+                stopping_criteria=stopping,
+                streamer=streamer,
+                **kwargs,
+            )
+            outcome["text"] = output[0]["generated_text"] if output else ""
+        except Exception as e:
+            outcome["error"] = e
+            streamer.end()
+
+    thread = threading.Thread(target=run)
+    thread.start()
+    for token in streamer:
+        if token:
+            respond({"token": token}, request_id)
+    thread.join()
+    if "error" in outcome:
+        raise outcome["error"]
+    return cut_at_stop(outcome["text"], prompt, stop)
 
-MODEL_NAME = "EleutherAI/gpt-neo-125M"  # or "distilgpt2"
 
 def main():
     try:
-        # Load model and tokenizer once
-        print("Loading model...", file=sys.stderr)
-        tokenizer = AutoTokenizer.from_pretrained(MODEL_NAME)
-        model = AutoModelForCausalLM.from_pretrained(MODEL_NAME)
-        generator = pipeline("text-generation", model=model, tokenizer=tokenizer, device=-1)
-        print("Model loaded.", file=sys.stderr)
+        # Load the default model once; others load on first use
+        load_generator(MODEL_NAME)
+        respond({"ready": True})
 
         # Read input from stdin
-        for line in sys.stdin:
+        requests = queue.Queue()
+        threading.Thread(target=read_requests, args=(requests,), daemon=True).start()
+        while True:
+            data = requests.get()
+            if data is None:
+                break
+            request_id = data.get("id")
             try:
-                data = json.loads(line)
+                if "invalid" in data:
+                    respond({"error": f"Invalid JSON: {data['invalid']}", "code": "INVALID_INPUT"})
+                    continue
                 prompt = data.get("prompt", "").strip()
                 if not prompt:
-                    print(json.dumps({"error": "Prompt is required."}))
+                    respond({"error": "Prompt is required.", "code": "INVALID_INPUT"}, request_id)
+                    continue
+                model_name = data.get("model") or MODEL_NAME
+                try:
+                    generator = load_generator(model_name)
+                except Exception as e:
+                    respond({"error": f"Failed to load model {model_name}: {e}", "code": "MODEL_UNAVAILABLE"}, request_id)
                     continue
                 # Generate text
-                output = generator(prompt, max_length=128, num_return_sequences=1)
-                result = output[0]["generated_text"] if output else ""
-                print(json.dumps({"result": result}))
+                result = generate(generator, prompt, request_id, bool(data.get("stream")), data)
+                payload = {"result": result, "model": model_name}
+                if is_cancelled(request_id):
+                    payload["cancelled"] = True
+                respond(payload, request_id)
             except Exception as e:
-                print(json.dumps({"error": str(e)}))
+                respond({"error": str(e), "code": "GENERATION_FAILED"}, request_id)
+            finally:
+                with cancelled_lock:
+                    pending_ids.discard(request_id)
+                    cancelled_ids.discard(request_id)
     except Exception as e:
-        print(json.dumps({"error": f"Failed to load model: {e}"}))
+        respond({"error": f"Failed to load model: {e}", "code": "MODEL_UNAVAILABLE"})
         sys.exit(1)
 
 if __name__ == "__main__":
-    main() 
\ No newline at end of file
+    main()
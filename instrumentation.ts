@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { apiAccessOptionsFromEnv, checkClientIdentification } = await import('@/lib/apiAccess');
+  const { getLogger } = await import('@/lib/logger');
+  // Throws in production, which stops the server from starting
+  const warning = checkClientIdentification(apiAccessOptionsFromEnv());
+  if (warning) getLogger().warn(warning);
+}
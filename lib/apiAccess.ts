@@ -0,0 +1,404 @@
+import { randomUUID } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { NextRequest } from 'next/server';
+import path from 'path';
+import * as z from 'zod';
+import { apiError } from '@/lib/apiError';
+import { getLogger, withLogContext } from '@/lib/logger';
+import { getMetrics } from '@/lib/metrics';
+
+// Token bucket: holds up to `capacity` tokens and refills continuously at
+// `perMinute` tokens a minute. Each request takes one.
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    readonly perMinute: number,
+    now = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  take(now = Date.now()): { ok: boolean; remaining: number; retryAfterSeconds: number } {
+    const refill = ((now - this.updatedAt) / 60000) * this.perMinute;
+    this.tokens = Math.min(this.capacity, this.tokens + refill);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { ok: true, remaining: Math.floor(this.tokens), retryAfterSeconds: 0 };
+    }
+    const retryAfterSeconds = Math.ceil(((1 - this.tokens) / this.perMinute) * 60);
+    return { ok: false, remaining: 0, retryAfterSeconds };
+  }
+
+  // A bucket that has refilled completely is indistinguishable from a new one
+  isFull(now = Date.now()): boolean {
+    return this.tokens + ((now - this.updatedAt) / 60000) * this.perMinute >= this.capacity;
+  }
+}
+
+const rateLimitSchema = z.object({
+  perMinute: z.number().positive(),
+  burst: z.number().int().positive().optional(),
+});
+
+const apiKeysFileSchema = z.object({
+  keys: z.array(
+    z.object({
+      name: z.string().trim().min(1),
+      key: z.string().min(16),
+      rateLimit: rateLimitSchema.optional(),
+    }),
+  ),
+});
+
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
+export interface ApiKey {
+  name: string;
+  key: string;
+  rateLimit?: RateLimit;
+}
+
+// Reads the API keys file. A missing file means no keys are configured.
+export function loadApiKeys(file: string): ApiKey[] {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+  const parsed = apiKeysFileSchema.safeParse(JSON.parse(text));
+  if (!parsed.success) {
+    throw new Error(`Invalid API keys file ${file}: ${parsed.error.issues.map((i) => i.message).join(', ')}`);
+  }
+  return parsed.data.keys;
+}
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// API access settings, read from the environment:
+//   API_KEYS_FILE            JSON file of API keys (default: config/api-keys.json)
+//   REQUIRE_API_KEY          "true" to reject requests without a key (default: false)
+//   RATE_LIMIT_PER_MINUTE    per-IP limit for requests without a key (default: 60)
+//   API_KEY_RATE_LIMIT_PER_MINUTE  default per-key limit (default: 120)
+//   TRUST_PROXY              "true", or the number of proxies in front of the
+//                            app, to take client IPs from X-Forwarded-For
+//                            (default: none; required in production unless
+//                            REQUIRE_API_KEY is set, see clientIp)
+export function apiAccessOptionsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  const proxies = env.TRUST_PROXY === 'true' ? 1 : Number.parseInt(env.TRUST_PROXY ?? '', 10);
+  return {
+    keysFile: path.resolve(env.API_KEYS_FILE || 'config/api-keys.json'),
+    requireKey: env.REQUIRE_API_KEY === 'true',
+    ipLimit: { perMinute: positiveNumber(env.RATE_LIMIT_PER_MINUTE, 60) },
+    keyLimit: { perMinute: positiveNumber(env.API_KEY_RATE_LIMIT_PER_MINUTE, 120) },
+    trustedProxies: Number.isFinite(proxies) && proxies > 0 ? proxies : 0,
+  };
+}
+
+export type ApiAccessOptions = ReturnType<typeof apiAccessOptionsFromEnv>;
+
+// Callers without a key are told apart only by the address a trusted proxy
+// reports (see clientIp). Without TRUST_PROXY they would all share one bucket,
+// so one script could get everyone rate limited: production servers refuse
+// to start that way, development only gets the returned warning. Checked at
+// startup by instrumentation.ts.
+export function checkClientIdentification(options: ApiAccessOptions, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  if (options.requireKey || options.trustedProxies > 0) return undefined;
+  const message =
+    'Callers without an API key cannot be told apart: set TRUST_PROXY to the number of proxies in front of the app, or REQUIRE_API_KEY=true.';
+  if (env.NODE_ENV === 'production') throw new Error(message);
+  return message;
+}
+
+// Who a request is counted against: an API key by name, or an IP address
+export interface ApiClient {
+  id: string;
+  keyName?: string;
+  ip?: string;
+  limit: RateLimit;
+}
+
+export interface UsageCounters {
+  requests: number;
+  rateLimited: number;
+  lastRequestAt?: string;
+}
+
+// Usage of IP clients that were pruned, summed
+export const RETIRED_USAGE = 'ip:*';
+
+export type AccessResult =
+  | { ok: true; client: ApiClient; headers: Record<string, string> }
+  | { ok: false; code: 'UNAUTHORIZED' | 'RATE_LIMITED'; error: string; headers: Record<string, string> };
+
+// Authenticates API keys and applies the token-bucket limits. All state is in
+// memory, so limits and counters are per server process.
+export class ApiAccess {
+  private keys: Map<string, ApiKey> = new Map();
+  private keysVersion?: number;
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly usage = new Map<string, UsageCounters>();
+
+  constructor(private readonly options: ApiAccessOptions) {}
+
+  // `rateLimit: false` authenticates without taking from a bucket or counting
+  // usage, for routes such as /api/metrics that a scraper polls
+  check(apiKey: string | undefined, ip: string, now = Date.now(), { rateLimit = true } = {}): AccessResult {
+    let client: ApiClient;
+    if (apiKey) {
+      const entry = this.currentKeys().get(apiKey);
+      if (!entry) {
+        return { ok: false, code: 'UNAUTHORIZED', error: 'Invalid API key.', headers: {} };
+      }
+      client = { id: `key:${entry.name}`, keyName: entry.name, limit: entry.rateLimit ?? this.options.keyLimit };
+    } else if (this.options.requireKey) {
+      return {
+        ok: false,
+        code: 'UNAUTHORIZED',
+        error: 'An API key is required. Send it as "Authorization: Bearer <key>".',
+        headers: { 'WWW-Authenticate': 'Bearer' },
+      };
+    } else {
+      client = { id: `ip:${ip}`, ip, limit: this.options.ipLimit };
+    }
+    if (!rateLimit) return { ok: true, client, headers: {} };
+
+    const counters = this.usage.get(client.id) ?? { requests: 0, rateLimited: 0 };
+    counters.requests++;
+    counters.lastRequestAt = new Date(now).toISOString();
+    this.usage.set(client.id, counters);
+
+    this.prune(now);
+    const capacity = client.limit.burst ?? Math.ceil(client.limit.perMinute);
+    let bucket = this.buckets.get(client.id);
+    if (!bucket || bucket.capacity !== capacity || bucket.perMinute !== client.limit.perMinute) {
+      bucket = new TokenBucket(capacity, client.limit.perMinute, now);
+      this.buckets.set(client.id, bucket);
+    }
+
+    const taken = bucket.take(now);
+    const headers = {
+      'X-RateLimit-Limit': String(capacity),
+      'X-RateLimit-Remaining': String(taken.remaining),
+    };
+    if (!taken.ok) {
+      counters.rateLimited++;
+      return {
+        ok: false,
+        code: 'RATE_LIMITED',
+        error: 'Too many requests. Please slow down.',
+        headers: { ...headers, 'Retry-After': String(taken.retryAfterSeconds) },
+      };
+    }
+    return { ok: true, client, headers };
+  }
+
+  // Proxies whose X-Forwarded-For entries can be believed, see clientIp
+  get trustedProxies(): number {
+    return this.options.trustedProxies;
+  }
+
+  usageFor(clientId: string): UsageCounters {
+    return { ...(this.usage.get(clientId) ?? { requests: 0, rateLimited: 0 }) };
+  }
+
+  allUsage(): Record<string, UsageCounters> {
+    return Object.fromEntries([...this.usage].map(([id, counters]) => [id, { ...counters }]));
+  }
+
+  // Re-reads the keys file when it changes, so keys can be added or revoked
+  // without a restart
+  private currentKeys(): Map<string, ApiKey> {
+    let version: number | undefined;
+    try {
+      version = statSync(this.options.keysFile).mtimeMs;
+    } catch {
+      version = undefined;
+    }
+    if (version !== this.keysVersion) {
+      this.keys = new Map(loadApiKeys(this.options.keysFile).map((entry) => [entry.key, entry]));
+      this.keysVersion = version;
+    }
+    return this.keys;
+  }
+
+  // Drops full buckets so one-off IPs don't accumulate forever. The usage of
+  // a dropped IP is folded into RETIRED_USAGE, keeping totals intact.
+  private prune(now: number) {
+    if (this.buckets.size < 1000) return;
+    for (const [id, bucket] of this.buckets) {
+      if (!bucket.isFull(now)) continue;
+      this.buckets.delete(id);
+      const counters = this.usage.get(id);
+      if (id.startsWith('ip:') && counters) {
+        const retired = this.usage.get(RETIRED_USAGE) ?? { requests: 0, rateLimited: 0 };
+        retired.requests += counters.requests;
+        retired.rateLimited += counters.rateLimited;
+        this.usage.set(RETIRED_USAGE, retired);
+        this.usage.delete(id);
+      }
+    }
+  }
+}
+
+const globalForAccess = globalThis as unknown as { apiAccess?: ApiAccess };
+
+export function getApiAccess(): ApiAccess {
+  if (!globalForAccess.apiAccess) {
+    globalForAccess.apiAccess = new ApiAccess(apiAccessOptionsFromEnv());
+  }
+  return globalForAccess.apiAccess;
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+export function apiKeyFromRequest(req: NextRequest): string | undefined {
+  const authorization = req.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (bearer ?? req.headers.get('x-api-key') ?? '').trim() || undefined;
+}
+
+// The caller's address, as seen by the outermost of `trustedProxies` proxies:
+// each proxy appends the address it received the request from to
+// X-Forwarded-For, so entries left of those are whatever the caller sent.
+// Next.js doesn't expose the socket address, and only fills in
+// X-Forwarded-For when the caller didn't send one, so without a trusted proxy
+// nothing identifies a caller and all requests without a key share one bucket,
+// which checkClientIdentification only allows outside production.
+export function clientIp(req: NextRequest, trustedProxies: number): string {
+  if (trustedProxies < 1) return 'direct';
+  const hops = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - trustedProxies)] || 'unknown';
+}
+
+// Route for metrics: ids in the path (history entries, short links) are
+// replaced so each route is one series. Short link ids may have no digits, so
+// anything under /s/ counts as one.
+export function routeLabel(pathname: string): string {
+  return pathname
+    .split('/')
+    .map((segment, i, segments) =>
+      (i === 2 && segments[1] === 's') || (/\d/.test(segment) && segment.length >= 8) ? ':id' : segment,
+    )
+    .join('/');
+}
+
+// What went wrong, by status, for the error counters
+export function errorCategory(status: number): string | undefined {
+  switch (status) {
+    case 400:
+      return 'invalid_request';
+    case 401:
+      return 'unauthorized';
+    case 404:
+      return 'not_found';
+    case 422:
+      return 'rejected_output';
+    case 429:
+      return 'rate_limited';
+    case 499:
+      return 'cancelled';
+    case 502:
+      return 'bad_output';
+    case 503:
+      return 'unavailable';
+    case 504:
+      return 'timeout';
+  }
+  if (status >= 500) return 'internal';
+  if (status >= 400) return 'client_error';
+  return undefined;
+}
+
+// Reuses the caller's X-Request-Id when it looks like one
+function requestIdFor(req: NextRequest): string {
+  const id = req.headers.get('x-request-id')?.trim();
+  return id && /^[\w.:-]{1,100}$/.test(id) ? id : randomUUID();
+}
+
+export interface ApiAccessRouteOptions {
+  // false to only authenticate, see ApiAccess.check
+  rateLimit?: boolean;
+}
+
+// Wraps an API route handler with key authentication and rate limiting.
+// Rejected requests get an UNAUTHORIZED (401) or RATE_LIMITED (429) error
+// without reaching the handler; accepted ones are passed the client they were
+// counted against and carry X-RateLimit-* headers. Every request also gets an id, echoed as
+// X-Request-Id and attached to everything logged while handling it, and ends
+// with one structured log line and an update to the request metrics.
+export function withApiAccess<C>(
+  handler: (req: NextRequest, context: C, client: ApiClient) => Promise<Response>,
+  { rateLimit = true }: ApiAccessRouteOptions = {},
+): (req: NextRequest, context: C) => Promise<Response> {
+  const handle = async (req: NextRequest, context: C): Promise<{ response: Response; client?: ApiClient }> => {
+    let access: AccessResult;
+    try {
+      const apiAccess = getApiAccess();
+      access = apiAccess.check(apiKeyFromRequest(req), clientIp(req, apiAccess.trustedProxies), Date.now(), { rateLimit });
+    } catch (error) {
+      getLogger().error('API access check failed', { error });
+      const message = error instanceof Error ? error.message : '';
+      return { response: apiError('INTERNAL_ERROR', { message }) };
+    }
+    if (!access.ok) {
+      return { response: apiError(access.code, { message: access.error, headers: access.headers }) };
+    }
+    let response: Response;
+    try {
+      response = await handler(req, context, access.client);
+    } catch (error) {
+      getLogger().error('Unhandled error in route handler', { error });
+      response = apiError('INTERNAL_ERROR');
+    }
+    for (const [name, value] of Object.entries(access.headers)) {
+      response.headers.set(name, value);
+    }
+    return { response, client: access.client };
+  };
+
+  return (req, context) => {
+    const requestId = requestIdFor(req);
+    return withLogContext({ requestId }, async () => {
+      const started = performance.now();
+      const { response, client } = await handle(req, context);
+      response.headers.set('X-Request-Id', requestId);
+
+      const seconds = (performance.now() - started) / 1000;
+      const route = routeLabel(req.nextUrl.pathname);
+      const metrics = getMetrics();
+      metrics.httpRequests.inc({ route, method: req.method, status: String(response.status) });
+      metrics.httpDuration.observe({ route, method: req.method }, seconds);
+      const category = errorCategory(response.status);
+      if (category) metrics.httpErrors.inc({ route, category });
+
+      const fields = {
+        method: req.method,
+        path: req.nextUrl.pathname,
+        status: response.status,
+        durationMs: Math.round(seconds * 1000),
+        client: client?.keyName ? `key:${client.keyName}` : client?.ip,
+        ...(response.headers.get('X-Cache') ? { cache: response.headers.get('X-Cache') } : {}),
+      };
+      if (response.status >= 500) {
+        getLogger().error('Request failed', { ...fields, errorCategory: category });
+      } else if (category) {
+        getLogger().warn('Request rejected', { ...fields, errorCategory: category });
+      } else {
+        getLogger().info('Request completed', fields);
+      }
+      return response;
+    });
+  };
+}
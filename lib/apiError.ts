@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { apiErrorBody, errorCatalog, type ErrorCode } from '@/lib/errors';
+
+export interface ApiErrorOptions {
+  // Replaces the catalog's default message
+  message?: string;
+  // Extra keys for the body, e.g. `fieldErrors`
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+// An error response in the envelope of lib/errors.ts, with the status the
+// catalog assigns to `code`
+export function apiError(code: ErrorCode, { message, details, headers }: ApiErrorOptions = {}): NextResponse {
+  return NextResponse.json(apiErrorBody(code, message, details), { status: errorCatalog[code].status, headers });
+}
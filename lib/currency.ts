@@ -0,0 +1,18 @@
+// Currencies an investor can enter amounts in. Amounts are never converted;
+// the currency only changes how they are written in prompts and on screen.
+export const currencies = ["ILS", "USD", "EUR", "GBP"] as const;
+
+export type Currency = (typeof currencies)[number];
+
+export const DEFAULT_CURRENCY: Currency = "ILS";
+
+// Written before the amount in prompts, e.g. "₪1000"
+export const currencySymbols: Record<Currency, string> = {
+  ILS: "₪",
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+};
+
+export const formatPromptAmount = (amount: number, currency: Currency = DEFAULT_CURRENCY) =>
+  `${currencySymbols[currency]}${amount}`;
@@ -0,0 +1,79 @@
+// Stable codes for every error the API returns. Clients should branch on
+// `code`; the `error` message is for people and may change.
+export const errorCodes = [
+  'INVALID_INPUT',
+  'UNAUTHORIZED',
+  'NOT_FOUND',
+  'RATE_LIMITED',
+  'GENERATION_CANCELLED',
+  'GUARDRAIL_REJECTED',
+  'INVALID_OUTPUT',
+  'GENERATION_FAILED',
+  'MODEL_UNAVAILABLE',
+  'SERVER_BUSY',
+  'GENERATION_TIMEOUT',
+  'STORAGE_ERROR',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof errorCodes)[number];
+
+export interface ErrorDefinition {
+  status: number;
+  // Whether sending the same request again may succeed
+  retryable: boolean;
+  // Default message, used when the failure has no more specific one
+  message: string;
+}
+
+export const errorCatalog: Record<ErrorCode, ErrorDefinition> = {
+  INVALID_INPUT: { status: 400, retryable: false, message: 'The request is invalid.' },
+  UNAUTHORIZED: { status: 401, retryable: false, message: 'Invalid or missing API key.' },
+  NOT_FOUND: { status: 404, retryable: false, message: 'Not found.' },
+  RATE_LIMITED: { status: 429, retryable: true, message: 'Too many requests. Please slow down.' },
+  // Not seen by the client that cancelled, but logged and counted
+  GENERATION_CANCELLED: { status: 499, retryable: true, message: 'Generation cancelled.' },
+  GUARDRAIL_REJECTED: {
+    status: 422,
+    retryable: true,
+    message: 'The recommendation was withheld by compliance checks.',
+  },
+  INVALID_OUTPUT: { status: 502, retryable: true, message: 'The model returned unusable output.' },
+  GENERATION_FAILED: { status: 500, retryable: true, message: 'Generation failed.' },
+  MODEL_UNAVAILABLE: { status: 503, retryable: true, message: 'The model is not available.' },
+  SERVER_BUSY: {
+    status: 503,
+    retryable: true,
+    message: 'The server is busy generating other recommendations. Please try again shortly.',
+  },
+  GENERATION_TIMEOUT: { status: 504, retryable: true, message: 'Generation timed out.' },
+  STORAGE_ERROR: { status: 500, retryable: true, message: 'Failed to save or read data on the server.' },
+  INTERNAL_ERROR: { status: 500, retryable: false, message: 'Internal server error.' },
+};
+
+// The JSON body of every error response. Route-specific details sit next to
+// these keys, e.g. `fieldErrors` for an invalid profile or `guardrails` for a
+// rejected recommendation.
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  [detail: string]: unknown;
+}
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && (errorCodes as readonly string[]).includes(value);
+
+export function apiErrorBody(code: ErrorCode, message?: string, details: Record<string, unknown> = {}): ApiErrorBody {
+  const { retryable, message: fallback } = errorCatalog[code];
+  return { error: message || fallback, code, retryable, ...details };
+}
+
+// The code of a failed response, guessed from its status for bodies without
+// one (e.g. from a proxy in front of the app)
+export function errorCodeOf(body: unknown, status: number): ErrorCode {
+  const code = (body as { code?: unknown } | null)?.code;
+  if (isErrorCode(code)) return code;
+  const match = errorCodes.find((candidate) => errorCatalog[candidate].status === status);
+  return match ?? (status >= 500 ? 'INTERNAL_ERROR' : 'INVALID_INPUT');
+}
@@ -0,0 +1,150 @@
+import type { ErrorCode } from '@/lib/errors';
+
+export type AcquireResult =
+  | { ok: true; release: () => void }
+  | { ok: false; reason: 'queue_full' | 'timeout' | 'cancelled' };
+
+export interface AcquireOptions {
+  signal?: AbortSignal;
+  // Epoch ms; waiting in the queue past this gives up with 'timeout'
+  deadline?: number;
+}
+
+interface Waiter {
+  grant: () => void;
+  resolve: (result: AcquireResult) => void;
+}
+
+// Counting semaphore with a bounded wait queue. Callers over the queue limit
+// are turned away immediately instead of piling up behind a CPU-bound model.
+export class Semaphore {
+  private active = 0;
+  private readonly waiting: Waiter[] = [];
+
+  constructor(
+    readonly maxConcurrent: number,
+    readonly maxQueued: number,
+  ) {}
+
+  acquire({ signal, deadline }: AcquireOptions = {}): Promise<AcquireResult> {
+    if (signal?.aborted) {
+      return Promise.resolve({ ok: false, reason: 'cancelled' });
+    }
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve({ ok: true, release: this.releaser() });
+    }
+    if (this.waiting.length >= this.maxQueued) {
+      return Promise.resolve({ ok: false, reason: 'queue_full' });
+    }
+
+    return new Promise((resolve) => {
+      const leave = (reason: 'timeout' | 'cancelled') => {
+        const index = this.waiting.indexOf(waiter);
+        if (index === -1) return;
+        this.waiting.splice(index, 1);
+        cleanup();
+        resolve({ ok: false, reason });
+      };
+      const onAbort = () => leave('cancelled');
+      const timer = deadline === undefined
+        ? undefined
+        : setTimeout(() => leave('timeout'), Math.max(0, deadline - Date.now()));
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const waiter: Waiter = {
+        resolve,
+        grant: () => {
+          cleanup();
+          resolve({ ok: true, release: this.releaser() });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+    });
+  }
+
+  stats() {
+    return { active: this.active, queued: this.waiting.length };
+  }
+
+  // Each slot can only be released once, however often release is called
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiting.shift();
+      if (next) {
+        // Hand the slot straight to the next waiter; `active` is unchanged
+        next.grant();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+const intAtLeast = (min: number, value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
+
+// Generation limits, read from the environment:
+//   MAX_CONCURRENT_GENERATIONS  generations running at once (default: PYTHON_WORKERS, else 1)
+//   MAX_QUEUED_GENERATIONS      requests allowed to wait for a slot (default: 8)
+//   GENERATION_TIMEOUT_MS       deadline per request, queueing included (default: 60000)
+//   RETRY_AFTER_SECONDS         Retry-After sent with 503 responses (default: 10)
+export function generationLimitsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    maxConcurrent: intAtLeast(1, env.MAX_CONCURRENT_GENERATIONS, intAtLeast(1, env.PYTHON_WORKERS, 1)),
+    maxQueued: intAtLeast(0, env.MAX_QUEUED_GENERATIONS, 8),
+    timeoutMs: intAtLeast(1, env.GENERATION_TIMEOUT_MS, 60000),
+    retryAfterSeconds: intAtLeast(0, env.RETRY_AFTER_SECONDS, 10),
+  };
+}
+
+const globalForLimiter = globalThis as unknown as { generationLimiter?: Semaphore };
+
+export function getGenerationLimiter(): Semaphore {
+  if (!globalForLimiter.generationLimiter) {
+    const { maxConcurrent, maxQueued } = generationLimitsFromEnv();
+    globalForLimiter.generationLimiter = new Semaphore(maxConcurrent, maxQueued);
+  }
+  return globalForLimiter.generationLimiter;
+}
+
+export type GenerationSlot =
+  | { ok: true; deadline: number; release: () => void }
+  | { ok: false; code: ErrorCode; error: string; headers?: Record<string, string> };
+
+// Waits for a free generation slot and starts the request's deadline. On
+// failure, returns the error code and headers the route should respond with.
+export async function acquireGenerationSlot(signal?: AbortSignal): Promise<GenerationSlot> {
+  const { timeoutMs, retryAfterSeconds } = generationLimitsFromEnv();
+  const deadline = Date.now() + timeoutMs;
+  const slot = await getGenerationLimiter().acquire({ signal, deadline });
+  if (slot.ok) {
+    return { ok: true, deadline, release: slot.release };
+  }
+  switch (slot.reason) {
+    case 'queue_full':
+      return {
+        ok: false,
+        code: 'SERVER_BUSY',
+        error: 'The server is busy generating other recommendations. Please try again shortly.',
+        headers: { 'Retry-After': String(retryAfterSeconds) },
+      };
+    case 'timeout':
+      return {
+        ok: false,
+        code: 'GENERATION_TIMEOUT',
+        error: 'Timed out waiting for a free generation slot.',
+        headers: { 'Retry-After': String(retryAfterSeconds) },
+      };
+    case 'cancelled':
+      return { ok: false, code: 'GENERATION_CANCELLED', error: 'Request cancelled.' };
+  }
+}
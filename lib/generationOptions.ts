@@ -0,0 +1,58 @@
+import * as z from "zod";
+
+// Limits the server enforces on every request; the form's advanced panel uses
+// the same numbers for its inputs.
+export const generationBounds = {
+  maxTokens: { min: 16, max: 1024, default: 256 },
+  temperature: { min: 0, max: 2, default: 0.7 },
+  topP: { min: 0.05, max: 1, default: 0.95 },
+  seed: { min: 0, max: 2 ** 32 - 1 },
+  stop: { maxCount: 4, maxLength: 32 },
+} as const;
+
+const { maxTokens, temperature, topP, seed, stop } = generationBounds;
+
+// Options a caller may send with a request; anything left out gets a default
+export const generationOptionsSchema = z
+  .object({
+    model: z.string().trim().min(1).max(200).optional(),
+    maxTokens: z.number().int().min(maxTokens.min).max(maxTokens.max).optional(),
+    temperature: z.number().min(temperature.min).max(temperature.max).optional(),
+    topP: z.number().min(topP.min).max(topP.max).optional(),
+    seed: z.number().int().min(seed.min).max(seed.max).optional(),
+    stop: z
+      .array(z.string().min(1).max(stop.maxLength, `Stop sequences must be at most ${stop.maxLength} characters`))
+      .max(stop.maxCount, `At most ${stop.maxCount} stop sequences are allowed`)
+      .optional(),
+  })
+  .strict();
+
+export type GenerationOptionsInput = z.infer<typeof generationOptionsSchema>;
+
+// Fully resolved options, as passed to providers and echoed in responses
+export interface GenerationOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  seed?: number;
+  stop: string[];
+}
+
+export function resolveGenerationOptions(input: GenerationOptionsInput, defaultModel: string): GenerationOptions {
+  return {
+    model: input.model ?? defaultModel,
+    maxTokens: input.maxTokens ?? maxTokens.default,
+    temperature: input.temperature ?? temperature.default,
+    topP: input.topP ?? topP.default,
+    seed: input.seed,
+    stop: input.stop ?? [],
+  };
+}
+
+// Cuts generated text at the first stop sequence, for providers that can't
+// stop on their own
+export function truncateAtStop(text: string, stopSequences: string[]): string {
+  const cut = Math.min(...stopSequences.map((s) => text.indexOf(s)).filter((i) => i !== -1));
+  return Number.isFinite(cut) ? text.slice(0, cut) : text;
+}
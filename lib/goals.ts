@@ -0,0 +1,134 @@
+import { DEFAULT_LOCALE, messages, type Locale } from "@/lib/i18n";
+import {
+  investableBalance,
+  investmentGoals,
+  type GoalPriority,
+  type Profile,
+} from "@/lib/profile";
+import { projectGrowth, riskAssumptions, riskLevels, type ProjectionYear, type RiskLevel } from "@/lib/projection";
+import { getRecommendedRiskLevel } from "@/lib/riskProfile";
+
+// Several goals funded from one monthly budget. The main goal comes from the
+// profile's own goal fields; additionalGoals adds the rest.
+
+export interface PlannedGoal {
+  goal: string;
+  timeHorizon: number;
+  targetAmount?: number;
+  priority: GoalPriority;
+}
+
+export interface GoalAllocation extends PlannedGoal {
+  // The profile's risk level, lowered when the goal's horizon is too short for it
+  riskLevel: RiskLevel;
+  // Share of the investable balance and of the monthly budget
+  startingBalance: number;
+  monthly: number;
+  // Monthly amount needed to reach targetAmount, when there is one
+  required?: number;
+  final: ProjectionYear;
+  // Whether the projected balance reaches targetAmount
+  onTrack?: boolean;
+}
+
+const priorityWeights: Record<GoalPriority, number> = { high: 3, medium: 2, low: 1 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Preset goals by their label in `locale`, custom goals as typed
+export function goalDisplayName(goal: string, locale: Locale = DEFAULT_LOCALE): string {
+  const preset = investmentGoals.find((preset) => preset.value === goal);
+  return preset ? messages[locale].goals[preset.value] : goal;
+}
+
+// Every goal in the profile, main goal first
+export function listGoals(profile: Pick<Profile, "goal" | "timeHorizon" | "targetAmount" | "goalPriority" | "additionalGoals">): PlannedGoal[] {
+  return [
+    {
+      goal: profile.goal,
+      timeHorizon: profile.timeHorizon,
+      targetAmount: profile.targetAmount || undefined,
+      priority: profile.goalPriority ?? "high",
+    },
+    ...(profile.additionalGoals ?? []).map((goal) => ({ ...goal, targetAmount: goal.targetAmount || undefined })),
+  ];
+}
+
+// Monthly contribution that grows `startingBalance` to `target` in `years`,
+// compounding monthly as projectGrowth does
+export function requiredMonthlyContribution(
+  target: number,
+  years: number,
+  expectedReturn: number,
+  startingBalance = 0,
+): number {
+  const months = Math.round(years * 12);
+  const monthlyRate = Math.pow(1 + expectedReturn, 1 / 12) - 1;
+  const growth = Math.pow(1 + monthlyRate, months);
+  const gap = target - startingBalance * growth;
+  if (gap <= 0 || months === 0) return 0;
+  return monthlyRate === 0 ? gap / months : (gap * monthlyRate) / (growth - 1);
+}
+
+function split(amount: number, goals: PlannedGoal[]): number[] {
+  const total = goals.reduce((sum, goal) => sum + priorityWeights[goal.priority], 0);
+  return goals.map((goal) => (total > 0 ? (amount * priorityWeights[goal.priority]) / total : 0));
+}
+
+// Splits the monthly budget across goals. Goals with a target get what they
+// need to reach it, highest priority and soonest first, until the budget runs
+// out; whatever is left goes to open-ended goals (or, if every goal has a
+// target, to all of them) by priority weight. The investable balance is split
+// by priority weight up front.
+export function allocateBudget(
+  profile: Pick<
+    Profile,
+    "goal" | "timeHorizon" | "targetAmount" | "goalPriority" | "additionalGoals" | "budget" | "riskLevel" | "startingSavings" | "holdings"
+  >,
+): GoalAllocation[] {
+  const goals = listGoals(profile);
+  const starting = split(investableBalance(profile), goals);
+  const levels = goals.map((goal) => {
+    const cap = getRecommendedRiskLevel(goal.timeHorizon);
+    return riskLevels[Math.min(riskLevels.indexOf(profile.riskLevel), riskLevels.indexOf(cap))];
+  });
+  const required = goals.map((goal, i) =>
+    goal.targetAmount === undefined
+      ? undefined
+      : requiredMonthlyContribution(goal.targetAmount, goal.timeHorizon, riskAssumptions[levels[i]].expectedReturn, starting[i]),
+  );
+
+  const monthly = goals.map(() => 0);
+  let remaining = Math.max(profile.budget || 0, 0);
+  const order = goals
+    .map((goal, i) => ({ goal, i }))
+    .sort((a, b) => priorityWeights[b.goal.priority] - priorityWeights[a.goal.priority] || a.goal.timeHorizon - b.goal.timeHorizon);
+  for (const { i } of order) {
+    if (required[i] === undefined) continue;
+    monthly[i] = Math.min(required[i]!, remaining);
+    remaining -= monthly[i];
+  }
+  const openEnded = goals.map((_, i) => i).filter((i) => required[i] === undefined);
+  const recipients = openEnded.length > 0 ? openEnded : goals.map((_, i) => i);
+  split(remaining, recipients.map((i) => goals[i])).forEach((amount, j) => {
+    monthly[recipients[j]] += amount;
+  });
+
+  return goals.map((goal, i) => {
+    const { final } = projectGrowth({
+      startingSavings: starting[i],
+      monthlyContribution: monthly[i],
+      years: goal.timeHorizon,
+      riskLevel: levels[i],
+    });
+    return {
+      ...goal,
+      riskLevel: levels[i],
+      startingBalance: round2(starting[i]),
+      monthly: round2(monthly[i]),
+      required: required[i] === undefined ? undefined : round2(required[i]!),
+      final,
+      onTrack: goal.targetAmount === undefined ? undefined : final.balance >= goal.targetAmount,
+    };
+  });
+}
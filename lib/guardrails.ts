@@ -0,0 +1,203 @@
+import type { InvestmentPlan } from "@/lib/plan";
+import type { RiskLevel } from "@/lib/projection";
+
+// Rules-based compliance checks run on every generated recommendation. Each
+// rule decides, given the investor's risk level, whether a match is rewritten
+// in place, annotated with a note, or causes the whole output to be rejected.
+
+export const guardrailActions = ["rewrite", "annotate", "reject"] as const;
+
+export type GuardrailAction = (typeof guardrailActions)[number];
+
+export const guardrailRules = ["guaranteed-returns", "specific-securities", "leverage", "risk-mismatch"] as const;
+
+export type GuardrailRuleId = (typeof guardrailRules)[number];
+
+// One triggered rule, reported in API responses for auditing
+export interface GuardrailFinding {
+  rule: GuardrailRuleId;
+  action: GuardrailAction;
+  matches: string[];
+  message: string;
+}
+
+export const jurisdictions = ["IL", "US", "EU"] as const;
+
+export type Jurisdiction = (typeof jurisdictions)[number];
+
+export interface GuardrailReport {
+  findings: GuardrailFinding[];
+  jurisdiction: Jurisdiction;
+  disclaimer: string;
+}
+
+export interface GuardrailContext {
+  riskLevel: RiskLevel;
+  jurisdiction: Jurisdiction;
+}
+
+export type GuardrailResult<T> =
+  | { ok: true; value: T; report: GuardrailReport }
+  | { ok: false; error: string; report: GuardrailReport };
+
+export const disclaimers: Record<Jurisdiction, string> = {
+  IL:
+    "This is general information, not investment advice or investment marketing under the Regulation of " +
+    "Investment Advice, Investment Marketing and Portfolio Management Law, 5755-1995. It does not account for " +
+    "your personal circumstances. Consult an investment adviser licensed by the Israel Securities Authority " +
+    "before investing.",
+  US:
+    "This is general educational information, not personalized investment advice, and no adviser-client " +
+    "relationship is created. Investing involves risk, including loss of principal. Consult a registered " +
+    "investment adviser before making investment decisions.",
+  EU:
+    "This is general information, not a personal recommendation or investment advice within the meaning of " +
+    "MiFID II. The value of investments can fall as well as rise and you may get back less than you invested. " +
+    "Consult an authorised financial adviser before investing.",
+};
+
+interface TextRule {
+  id: Exclude<GuardrailRuleId, "risk-mismatch">;
+  pattern: RegExp;
+  action: (riskLevel: RiskLevel) => GuardrailAction | undefined;
+  message: string;
+  rewrite?: (match: string) => string;
+}
+
+const keepCase = (match: string, replacement: string) =>
+  /^[A-Z]/.test(match) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+
+const guaranteeRewrites: [RegExp, string][] = [
+  [/^guaranteed$/i, "potential"],
+  [/^guarantees?$/i, "aims for"],
+  [/^risk[- ]free$/i, "lower-risk"],
+  [/^can(?:not|'t) lose/i, "can still lose"],
+  [/^no risk$/i, "some risk"],
+  [/^will definitely$/i, "may"],
+  [/^(?:certain|sure) to/i, "not guaranteed to"],
+];
+
+const textRules: TextRule[] = [
+  {
+    id: "guaranteed-returns",
+    pattern:
+      /\b(?:guaranteed|guarantees?|risk[- ]free|can(?:not|'t) lose(?: money)?|no risk|will definitely|(?:certain|sure) to (?:grow|rise|double|profit))\b/gi,
+    action: () => "rewrite",
+    message: "Returns were described as guaranteed or risk-free; the wording was softened.",
+    rewrite: (match) => {
+      const found = guaranteeRewrites.find(([pattern]) => pattern.test(match));
+      return found ? keepCase(match, match.replace(found[0], found[1])) : match;
+    },
+  },
+  {
+    id: "specific-securities",
+    pattern:
+      /\$[A-Z]{1,5}\b|\b(?:NYSE|NASDAQ|TASE)\s*:\s*[A-Z.]{1,6}\b|\b(?:Apple|Tesla|Amazon|Microsoft|Alphabet|Google|Nvidia|Meta|Teva|Netflix)\b(?=\s+(?:stock|shares|equity))/g,
+    action: () => "annotate",
+    message:
+      "Specific securities are mentioned for illustration only; this is not a recommendation to buy or sell them.",
+  },
+  {
+    id: "leverage",
+    pattern:
+      /\b(?:leverage[d]?|margin (?:account|trading|loans?)|options trading|short[- ]selling|[23]x (?:ETFs?|funds?)|crypto(?:currenc(?:y|ies))?)\b/gi,
+    action: (riskLevel) => (riskLevel === "low" ? "reject" : riskLevel === "medium" ? "annotate" : undefined),
+    message: "Leveraged or speculative instruments are unsuitable for the selected risk level.",
+  },
+];
+
+// Above this share of equities a plan no longer reads as low risk
+const LOW_RISK_MAX_EQUITY = 60;
+
+// "does not guarantee", "avoid leverage": a match the text argues against
+const NEGATED = /\b(?:not|no|never|avoid|avoiding|without|against)\s+(?:[\w-]+\s+){0,2}$/i;
+
+function checkText(text: string, { riskLevel }: GuardrailContext, findings: GuardrailFinding[]): string {
+  let result = text;
+  for (const rule of textRules) {
+    const action = rule.action(riskLevel);
+    if (!action) continue;
+    const matches: string[] = [];
+    // Patterns have no capture groups, so the second argument is the offset
+    result = result.replace(rule.pattern, (match: string, offset: number) => {
+      if (NEGATED.test(result.slice(Math.max(0, offset - 40), offset))) return match;
+      matches.push(match);
+      return action === "rewrite" && rule.rewrite ? rule.rewrite(match) : match;
+    });
+    if (matches.length === 0) continue;
+    const existing = findings.find((f) => f.rule === rule.id);
+    if (existing) {
+      existing.matches.push(...matches);
+    } else {
+      findings.push({ rule: rule.id, action, matches, message: rule.message });
+    }
+  }
+  return result;
+}
+
+function report(findings: GuardrailFinding[], jurisdiction: Jurisdiction): GuardrailReport {
+  return { findings, jurisdiction, disclaimer: disclaimers[jurisdiction] };
+}
+
+function rejection<T>(findings: GuardrailFinding[], jurisdiction: Jurisdiction): GuardrailResult<T> | undefined {
+  const rejected = findings.filter((f) => f.action === "reject");
+  if (rejected.length === 0) return undefined;
+  return {
+    ok: false,
+    error: `The recommendation was withheld by compliance checks: ${rejected.map((f) => f.message).join(" ")}`,
+    report: report(findings, jurisdiction),
+  };
+}
+
+// Checks a free-text recommendation. Annotations are appended as notes.
+export function applyTextGuardrails(text: string, context: GuardrailContext): GuardrailResult<string> {
+  const findings: GuardrailFinding[] = [];
+  const checked = checkText(text, context, findings);
+  const rejected = rejection<string>(findings, context.jurisdiction);
+  if (rejected) return rejected;
+  const notes = findings.filter((f) => f.action === "annotate").map((f) => `Note: ${f.message}`);
+  return {
+    ok: true,
+    value: [checked, ...notes].join("\n\n"),
+    report: report(findings, context.jurisdiction),
+  };
+}
+
+// Checks every text field of a plan, plus its equity share against the risk
+// level. Annotations are added to the plan's warnings.
+export function applyPlanGuardrails(plan: InvestmentPlan, context: GuardrailContext): GuardrailResult<InvestmentPlan> {
+  const findings: GuardrailFinding[] = [];
+  const check = (text: string) => checkText(text, context, findings);
+  const checked: InvestmentPlan = {
+    ...plan,
+    summary: check(plan.summary),
+    allocations: plan.allocations.map((allocation) => ({
+      ...allocation,
+      assetClass: check(allocation.assetClass),
+      instruments: allocation.instruments.map(check),
+    })),
+    rationale: check(plan.rationale),
+    warnings: plan.warnings.map(check),
+    goals: plan.goals?.map((goal) => ({ ...goal, recommendation: check(goal.recommendation) })),
+  };
+
+  const equities = plan.allocations.filter((a) => /equit|stock|shares/i.test(a.assetClass));
+  const equityShare = equities.reduce((sum, a) => sum + a.percentage, 0);
+  if (context.riskLevel === "low" && equityShare > LOW_RISK_MAX_EQUITY) {
+    findings.push({
+      rule: "risk-mismatch",
+      action: "annotate",
+      matches: equities.map((a) => `${a.assetClass} ${a.percentage}%`),
+      message: `The plan puts ${equityShare}% in equities, which is high for a low-risk profile.`,
+    });
+  }
+
+  const rejected = rejection<InvestmentPlan>(findings, context.jurisdiction);
+  if (rejected) return rejected;
+  const notes = findings.filter((f) => f.action === "annotate").map((f) => f.message);
+  return {
+    ok: true,
+    value: { ...checked, warnings: [...checked.warnings, ...notes] },
+    report: report(findings, context.jurisdiction),
+  };
+}
@@ -0,0 +1,59 @@
+import * as z from "zod";
+import { goalDisplayName } from "@/lib/goals";
+import { guardrailActions, guardrailRules, jurisdictions } from "@/lib/guardrails";
+import { DEFAULT_LOCALE, format, messages, type Locale } from "@/lib/i18n";
+import { investmentPlanSchema } from "@/lib/plan";
+import { profileSchema } from "@/lib/profile";
+
+// One generated recommendation together with everything needed to reopen or
+// re-run it: the inputs, the prompt and model used, and the output.
+export const historyEntryInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  profile: profileSchema,
+  prompt: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  template: z.object({ id: z.string(), version: z.number() }).optional(),
+  result: z.string(),
+  plan: investmentPlanSchema.nullable().optional(),
+  guardrails: z
+    .object({
+      findings: z.array(
+        z.object({
+          rule: z.enum(guardrailRules),
+          action: z.enum(guardrailActions),
+          matches: z.array(z.string()),
+          message: z.string(),
+        }),
+      ),
+      jurisdiction: z.enum(jurisdictions),
+      disclaimer: z.string(),
+    })
+    .optional(),
+});
+
+export type HistoryEntryInput = z.infer<typeof historyEntryInputSchema>;
+
+export interface HistoryEntry extends HistoryEntryInput {
+  id: string;
+  createdAt: string;
+}
+
+export const historyRenameSchema = z.object({
+  name: z.string().trim().min(1, "Name must not be empty").max(100, "Name must be at most 100 characters"),
+});
+
+// Default name for a new entry in `locale`, e.g. "Buying a House · medium risk · 10y"
+export function defaultHistoryName(
+  { profile }: Pick<HistoryEntryInput, "profile">,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const t = messages[locale];
+  const name = goalDisplayName(profile.goal, locale);
+  const goal = name.length > 30 ? `${name.slice(0, 30)}…` : name;
+  return format(t.history.defaultName, {
+    goal: `${goal.charAt(0).toUpperCase()}${goal.slice(1)}`,
+    risk: t.riskLevels[profile.riskLevel].toLowerCase(),
+    years: profile.timeHorizon,
+  });
+}
@@ -0,0 +1,70 @@
+import type { HistoryEntry, HistoryEntryInput } from "@/lib/history";
+
+// Where an entry lives; entries saved while the server store was unavailable
+// stay in localStorage.
+export type StoredHistoryEntry = HistoryEntry & { source: "server" | "local" };
+
+const STORAGE_KEY = "investgpt.history";
+
+function readLocal(): HistoryEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal(entries: HistoryEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, 200)));
+}
+
+// Helper to call the history API; network errors and 5xx responses mean the
+// server store is unavailable and the caller should fall back.
+async function callServer(input: string, init?: RequestInit): Promise<Response | null> {
+  try {
+    const res = await fetch(input, {
+      ...init,
+      headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+    });
+    return res.status >= 500 ? null : res;
+  } catch {
+    return null;
+  }
+}
+
+export async function listHistory(): Promise<StoredHistoryEntry[]> {
+  const res = await callServer("/api/history");
+  const server: HistoryEntry[] = res?.ok ? (await res.json()).entries : [];
+  return [
+    ...server.map((entry) => ({ ...entry, source: "server" as const })),
+    ...readLocal().map((entry) => ({ ...entry, source: "local" as const })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveHistory(input: HistoryEntryInput): Promise<StoredHistoryEntry> {
+  const res = await callServer("/api/history", { method: "POST", body: JSON.stringify(input) });
+  if (res?.ok) {
+    return { ...(await res.json()), source: "server" };
+  }
+  const entry: HistoryEntry = { ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  writeLocal([entry, ...readLocal()]);
+  return { ...entry, source: "local" };
+}
+
+export async function renameHistory(entry: StoredHistoryEntry, name: string): Promise<void> {
+  if (entry.source === "local") {
+    writeLocal(readLocal().map((e) => (e.id === entry.id ? { ...e, name } : e)));
+    return;
+  }
+  const res = await callServer(`/api/history/${entry.id}`, { method: "PATCH", body: JSON.stringify({ name }) });
+  if (!res?.ok) throw new Error("Failed to rename scenario.");
+}
+
+export async function deleteHistory(entry: StoredHistoryEntry): Promise<void> {
+  if (entry.source === "local") {
+    writeLocal(readLocal().filter((e) => e.id !== entry.id));
+    return;
+  }
+  const res = await callServer(`/api/history/${entry.id}`, { method: "DELETE" });
+  if (!res?.ok && res?.status !== 404) throw new Error("Failed to delete scenario.");
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import type { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import type { ApiClient } from '@/lib/apiAccess';
+import type { HistoryEntry, HistoryEntryInput } from '@/lib/history';
+
+// Oldest entries are dropped beyond these, so the file stays small
+const MAX_ENTRIES_PER_OWNER = 200;
+const MAX_ENTRIES = 5000;
+
+// Entries are stored with the client they belong to (see historyOwner), and
+// every read and write is scoped to that client
+interface OwnedEntry {
+  owner: string;
+  entry: HistoryEntry;
+}
+
+// Persists recommendation history as a JSON file on the server. Writes are
+// serialized and atomic (temp file + rename), so concurrent requests can't
+// interleave or leave a half-written file behind.
+export class HistoryStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  async list(owner: string): Promise<HistoryEntry[]> {
+    await this.queue;
+    return (await this.read()).filter((e) => e.owner === owner).map((e) => e.entry);
+  }
+
+  add(owner: string, input: HistoryEntryInput): Promise<HistoryEntry> {
+    return this.update((entries) => {
+      const entry: HistoryEntry = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+      const dropped = new Set(entries.filter((e) => e.owner === owner).slice(MAX_ENTRIES_PER_OWNER - 1));
+      return {
+        entries: [{ owner, entry }, ...entries.filter((e) => !dropped.has(e))].slice(0, MAX_ENTRIES),
+        value: entry,
+      };
+    });
+  }
+
+  rename(owner: string, id: string, name: string): Promise<HistoryEntry | undefined> {
+    return this.update((entries) => {
+      const entry = entries.find((e) => e.entry.id === id && e.owner === owner)?.entry;
+      if (entry) entry.name = name;
+      return { entries, value: entry };
+    });
+  }
+
+  remove(owner: string, id: string): Promise<boolean> {
+    return this.update((entries) => {
+      const remaining = entries.filter((e) => e.entry.id !== id || e.owner !== owner);
+      return { entries: remaining, value: remaining.length !== entries.length };
+    });
+  }
+
+  private async read(): Promise<OwnedEntry[]> {
+    try {
+      const entries: OwnedEntry[] = JSON.parse(await readFile(this.file, 'utf8'));
+      // Entries saved before history was scoped belong to no one
+      return entries.filter((e) => e.owner && e.entry);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+  }
+
+  private update<T>(change: (entries: OwnedEntry[]) => { entries: OwnedEntry[]; value: T }): Promise<T> {
+    const next = this.queue.then(async () => {
+      const { entries, value } = change(await this.read());
+      await mkdir(path.dirname(this.file), { recursive: true });
+      const temp = `${this.file}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(entries, null, 2));
+      await rename(temp, this.file);
+      return value;
+    });
+    // Keep the chain alive after a failed write
+    this.queue = next.catch(() => {});
+    return next;
+  }
+}
+
+// Reads the store location from the environment:
+//   HISTORY_FILE  JSON file to keep history in (default: data/history.json)
+const globalForHistory = globalThis as unknown as { historyStore?: HistoryStore };
+
+export function getHistoryStore(): HistoryStore {
+  globalForHistory.historyStore ??= new HistoryStore(
+    path.resolve(process.cwd(), process.env.HISTORY_FILE || 'data/history.json'),
+  );
+  return globalForHistory.historyStore;
+}
+
+// Identifies the browser between requests for history scoping; httpOnly, so
+// page scripts can't read or copy it
+export const HISTORY_OWNER_COOKIE = 'history_owner';
+
+// Whose history a request may see: an API key's own, or else the browser's,
+// identified by a random id in HISTORY_OWNER_COOKIE. A browser without the
+// cookie gets a new id, which remember() sets on the response.
+export function historyOwner(req: NextRequest, client: ApiClient) {
+  if (client.keyName) {
+    return { owner: `key:${client.keyName}`, remember: <R extends NextResponse>(res: R) => res };
+  }
+  const cookie = req.cookies.get(HISTORY_OWNER_COOKIE)?.value;
+  const id = cookie && /^[\w-]{36}$/.test(cookie) ? cookie : randomUUID();
+  return {
+    owner: `browser:${id}`,
+    remember: <R extends NextResponse>(res: R) => {
+      if (id !== cookie) {
+        res.cookies.set(HISTORY_OWNER_COOKIE, id, {
+          httpOnly: true,
+          sameSite: 'lax',
+          path: '/',
+          maxAge: 60 * 60 * 24 * 365,
+        });
+      }
+      return res;
+    },
+  };
+}
@@ -0,0 +1,695 @@
+// UI strings for every supported language. English is the source of truth:
+// other languages must supply the same keys, which the Messages type enforces.
+
+import type { ErrorCode } from "@/lib/errors";
+
+export const locales = ["en", "he"] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the chosen language so the server renders <html lang dir> to match
+export const LOCALE_COOKIE = "locale";
+
+export const resolveLocale = (value: string | undefined): Locale =>
+  locales.find((locale) => locale === value) ?? DEFAULT_LOCALE;
+
+export const localeDirection = (locale: Locale): "ltr" | "rtl" => (locale === "he" ? "rtl" : "ltr");
+
+// Locale used by Intl for numbers and currency amounts
+export const numberLocale = (locale: Locale) => (locale === "he" ? "he-IL" : "en-IL");
+
+// Fills {name} placeholders, e.g. format("{years} years", { years: 10 })
+export function format(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+const en = {
+  languageName: "English",
+  switchLanguage: "עברית",
+  page: {
+    title: "InvestGPT",
+    subtitle: "Get personalized investment recommendations based on your goals and preferences",
+  },
+  fields: {
+    age: { label: "🧑 Age", description: "Your current age" },
+    currency: { label: "💱 Currency", description: "The currency you save and invest in" },
+    startingSavings: {
+      label: "Do you already have savings to invest?",
+      placeholder: "e.g. 5000",
+      description: "Optional: Add your current savings to improve accuracy",
+    },
+    budget: { label: "💰 Monthly Investment Budget", description: "How much you can invest each month" },
+    goal: {
+      label: "🎯 Investment Goal",
+      usePresets: "Use Preset Goals",
+      enterCustom: "Enter Custom Goal",
+      customPlaceholder: "Enter your investment goal",
+      presetPlaceholder: "Select your investment goal",
+      customDescription: "Describe your specific investment goal",
+      presetDescription: "What are you investing for?",
+    },
+    riskLevel: {
+      label: "⚖️ Risk Level",
+      placeholder: "Select risk level",
+      description: "Select your preferred risk level for investments",
+      recommended: "(Recommended: {level} for {years} years)",
+    },
+    timeHorizon: {
+      label: "⏳ Time Horizon",
+      minimum: "1 year",
+      value: "{years} years",
+      maximum: "30 years",
+      description: "How long you plan to invest",
+    },
+    targetAmount: {
+      label: "🏁 Target Amount",
+      placeholder: "e.g. 500000",
+      description: "Optional: How much you want to have at the end, to estimate your chance of getting there",
+    },
+    monthlyIncome: { label: "💼 Monthly Income", description: "Your take-home pay each month, after tax" },
+    debts: {
+      label: "💳 Debts",
+      description: "Loans, mortgages and credit card balances you are paying off",
+      name: "Name",
+      namePlaceholder: "e.g. Car loan",
+      balance: "Balance",
+      interestRate: "Interest (%)",
+      monthlyPayment: "Monthly payment",
+      add: "Add debt",
+      remove: "Remove",
+      none: "No debts added.",
+      payDownFirst: "{name} at {rate}% costs more than a {level}-risk portfolio is expected to earn; paying it down first is likely better.",
+    },
+    emergencyFund: {
+      label: "🛟 Emergency Fund",
+      placeholder: "Select emergency fund status",
+      description: "Cash set aside for unexpected expenses",
+    },
+    dependents: { label: "👪 Dependents", description: "Children or others who rely on your income" },
+    holdings: {
+      label: "📊 Current Holdings",
+      description: "What you already own, by asset class. Cash, bonds, equities and other holdings count toward the projection.",
+      assetClass: "Asset class",
+      amount: "Amount",
+      add: "Add holding",
+      remove: "Remove",
+      none: "No holdings added.",
+      total: "Counted in projections: {amount}",
+    },
+  },
+  riskQuestionnaire: {
+    title: "🧭 Not sure? Answer three questions",
+    description: "Your answers and time horizon give a risk score that suggests a risk level.",
+    questions: {
+      lossReaction: "If your investments fell 20% in a month, you would…",
+      incomeStability: "How stable is your income?",
+      experience: "How much investing experience do you have?",
+    },
+    answers: {
+      lossReaction: {
+        "sell-all": "Sell everything",
+        "sell-some": "Sell some",
+        hold: "Hold on",
+        "buy-more": "Buy more",
+      },
+      incomeStability: {
+        unstable: "Unstable",
+        variable: "Varies month to month",
+        stable: "Stable",
+        "very-stable": "Very stable, with savings to spare",
+      },
+      experience: {
+        none: "None",
+        basic: "Savings accounts and pension only",
+        experienced: "I have invested in funds or stocks",
+        advanced: "I invest actively",
+      },
+    },
+    placeholder: "Choose an answer",
+    factors: {
+      lossReaction: "Reaction to losses",
+      incomeStability: "Income stability",
+      experience: "Experience",
+      horizon: "Time horizon",
+    },
+    horizonAnswer: "{years} years",
+    factor: "{factor}: {answer} ({points}/{max} points)",
+    score: "Risk score {score}/100, suggesting {level} risk.",
+    capped: "Limited to {level} risk by your {years}-year time horizon.",
+    apply: "Use suggested level",
+  },
+  goalsPlan: {
+    mainGoal: "Main goal: {goal}, in {years} years",
+    priority: "Priority of the main goal",
+    priorityDescription: "When the budget can't cover every goal, higher priorities are funded first.",
+    otherGoals: "➕ Other goals",
+    otherGoalsDescription: "Saving for more than one thing? Add each goal with its own target, horizon and priority.",
+    goal: "Goal",
+    goalPlaceholder: "e.g. Retirement",
+    targetAmount: "Target (optional)",
+    timeHorizon: "Years",
+    goalPriority: "Priority",
+    add: "Add goal",
+    remove: "Remove",
+    none: "No other goals.",
+    split: "Budget split",
+    monthly: "Monthly",
+    projected: "Projected",
+    target: "Target",
+    onTrack: "On track",
+    shortfall: "Short of target",
+    inYears: "{years} years · {priority} priority",
+    needs: "Needs {amount}/month",
+  },
+  priorities: { high: "High", medium: "Medium", low: "Low" },
+  steps: {
+    basics: "Goals & budget",
+    goals: "More goals",
+    finances: "Income & debts",
+    holdings: "Holdings",
+    progress: "Step {step} of {count}",
+    back: "Back",
+    next: "Next",
+  },
+  emergencyFundLevels: {
+    none: "None",
+    partial: "Less than 3 months of expenses",
+    full: "3 months of expenses or more",
+  },
+  assetClasses: {
+    cash: "Cash & deposits",
+    bonds: "Bonds",
+    equities: "Equities",
+    "real-estate": "Real estate",
+    pension: "Pension & provident funds",
+    other: "Other",
+  },
+  goals: {
+    retirement: "Retirement Planning",
+    house: "Buying a House",
+    education: "Education Fund",
+    wealth: "Wealth Building",
+  },
+  riskLevels: { low: "Low", medium: "Medium", high: "High" },
+  currencies: { ILS: "Israeli shekel (₪)", USD: "US dollar ($)", EUR: "Euro (€)", GBP: "British pound (£)" },
+  validation: {
+    age: "Age must be a positive number",
+    startingSavings: "Starting savings must be a positive number",
+    budget: "Monthly budget must be a positive number",
+    goalRequired: "Please enter or select an investment goal",
+    goalTooLong: "Investment goal must be at most 200 characters",
+    riskLevel: "Please select a risk level",
+    timeHorizonMin: "Time horizon must be at least 1 year",
+    timeHorizonMax: "Maximum time horizon is 50 years",
+    targetAmount: "Target amount must be a positive number",
+    monthlyIncome: "Monthly income must be a positive number",
+    debtName: "Please name this debt",
+    debtNameTooLong: "Debt names must be at most 60 characters",
+    debtBalance: "Balance must be a positive number",
+    debtInterestRate: "Interest rate must be between 0% and 100%",
+    debtMonthlyPayment: "Monthly payment must be a positive number",
+    tooManyDebts: "At most 10 debts can be added",
+    dependents: "Dependents must be a whole number between 0 and 20",
+    holdingAmount: "Amount must be a positive number",
+    tooManyGoals: "At most 4 additional goals can be added",
+  },
+  actions: {
+    generate: "Generate",
+    generating: "Generating...",
+    cancel: "Cancel",
+    reset: "Reset",
+    addVariant: "Add to comparison",
+    updateVariant: "Update scenario",
+    runSimulation: "Run simulation",
+    runAgain: "Run again",
+    simulating: "Simulating...",
+  },
+  sections: {
+    recommendation: "AI Recommendation:",
+    generatedBy: "{model} · prompt {template} v{version}",
+    wordingAdjusted: "Some wording was adjusted to avoid promising returns.",
+    projection: "📈 Projection:",
+    simulation: "🎲 Simulation:",
+    simulationHint: "See the range of outcomes across thousands of randomized market scenarios.",
+    goals: "🎯 Goals:",
+    comparison: "⚖️ Compare scenarios:",
+    history: "🕘 History:",
+  },
+  share: {
+    button: "Share",
+    title: "🔗 Share these inputs",
+    description: "Anyone who opens the link gets the form filled in exactly as it is now.",
+    includeRecommendation: "Include the recommendation, so it opens without generating again",
+    copy: "Copy",
+    copied: "Copied",
+    copyFailed: "Couldn't copy the link; select it and copy it by hand.",
+    shorten: "Create short link",
+    shortening: "Creating...",
+    failed: "Failed to create a short link.",
+    close: "Close",
+    invalid: "The shared link is invalid or from an incompatible version.",
+  },
+  export: {
+    label: "Download:",
+    formats: { pdf: "PDF report", md: "Markdown", csv: "Projection (CSV)" },
+    exporting: "Preparing...",
+    failed: "Failed to export the recommendation.",
+  },
+  projection: {
+    balance: "Projected balance",
+    realBalance: "In today's money",
+    contributions: "You contribute",
+    growth: "Investment growth",
+    chartLabel: "Projected balance by year",
+    yearTooltip: "Year {year}: {balance} (contributions {contributions}, growth {growth})",
+    legend: { contributions: "Contributions", growth: "Growth", realBalance: "Inflation-adjusted balance" },
+    schedule: "Year-by-year schedule",
+    columns: { year: "Year", contributions: "Contributions", growth: "Growth", balance: "Balance", realBalance: "Today's money" },
+    yearWithAge: "{year} (age {age})",
+    assumptions: "Assumes {expectedReturn}% yearly return and {inflationRate}% inflation. Actual returns vary.",
+  },
+  simulation: {
+    chance: "chance of reaching {amount}",
+    p10: "Pessimistic (10th)",
+    p50: "Median",
+    p90: "Optimistic (90th)",
+    chartLabel: "Simulated balance range by year",
+    legend: { band: "10th–90th percentile", median: "Median", target: "Target" },
+    basedOn: "Based on {paths} simulated market paths (seed {seed}).",
+  },
+  plan: {
+    columns: { assetClass: "Asset class", allocation: "Allocation", instruments: "Instruments" },
+    rebalancing: "🔁 Rebalancing",
+    rationale: "💡 Rationale",
+    warnings: "⚠️ Warnings",
+    cadences: { monthly: "Monthly", quarterly: "Quarterly", semiannually: "Every 6 months", annually: "Annually" },
+  },
+  history: {
+    empty: "Your generated recommendations will appear here.",
+    perMonth: "{amount}/month",
+    savedLocally: "saved in this browser",
+    open: "Open",
+    rerun: "Re-run",
+    rename: "Rename",
+    save: "Save",
+    delete: "Delete",
+    defaultName: "{goal} · {risk} risk · {years}y",
+    renameFailed: "Failed to rename scenario.",
+    deleteFailed: "Failed to delete scenario.",
+  },
+  comparison: {
+    empty: "Fill in the form and click \"{action}\" to compare up to {count} scenarios side by side.",
+    baseline: "Baseline",
+    scenario: "Scenario {letter}",
+    edit: "Edit",
+    remove: "Remove",
+    rows: {
+      age: "Age",
+      startingSavings: "Starting savings",
+      budget: "Monthly budget",
+      goals: "Goals",
+      riskLevel: "Risk level",
+      timeHorizon: "Time horizon",
+      targetAmount: "Target amount",
+      monthlyIncome: "Monthly income",
+      debts: "Debts",
+      holdings: "Existing holdings",
+      recommendation: "Recommendation",
+    },
+    generateAll: "Generate recommendations for all",
+    otherCurrency: "Different currency, not compared",
+  },
+  advanced: {
+    title: "Advanced generation settings",
+    model: "Model",
+    defaultModel: "Default model",
+    maxTokens: "Max tokens",
+    temperature: "Temperature",
+    topP: "Top-p",
+    seed: "Seed",
+    randomSeed: "Random",
+    stop: "Stop sequences",
+    stopPlaceholder: "e.g. \\n\\n, ###",
+    stopHint: "Comma-separated, up to {count}; \\n is a newline",
+    useDefaults: "Use defaults",
+  },
+  errors: {
+    simulate: "Failed to run simulation.",
+    retry: "Try again",
+    // Why a generation failed, by the code the server sent (lib/errors.ts)
+    codes: {
+      INVALID_INPUT: "Some of the inputs were rejected. Check the highlighted fields.",
+      UNAUTHORIZED: "This server requires an API key to generate recommendations.",
+      NOT_FOUND: "The requested item no longer exists.",
+      RATE_LIMITED: "You're sending requests too quickly. Wait a moment, then try again.",
+      GENERATION_CANCELLED: "The generation was cancelled.",
+      GUARDRAIL_REJECTED: "The recommendation was withheld because it didn't pass our compliance checks. Generating it again usually helps.",
+      INVALID_OUTPUT: "The AI model returned an answer we couldn't use.",
+      GENERATION_FAILED: "Something went wrong while generating the recommendation.",
+      MODEL_UNAVAILABLE: "The AI model is unavailable right now. Try again in a few minutes.",
+      SERVER_BUSY: "The server is busy with other recommendations. Try again shortly.",
+      GENERATION_TIMEOUT: "Generating the recommendation took too long.",
+      STORAGE_ERROR: "The server couldn't save or read your data.",
+      INTERNAL_ERROR: "Something went wrong on the server.",
+    } satisfies Record<ErrorCode, string>,
+  },
+};
+
+export type Messages = typeof en;
+
+const he: Messages = {
+  languageName: "עברית",
+  switchLanguage: "English",
+  page: {
+    title: "InvestGPT",
+    subtitle: "קבלו המלצות השקעה מותאמות אישית לפי המטרות וההעדפות שלכם",
+  },
+  fields: {
+    age: { label: "🧑 גיל", description: "הגיל הנוכחי שלך" },
+    currency: { label: "💱 מטבע", description: "המטבע שבו את/ה חוסך/ת ומשקיע/ה" },
+    startingSavings: {
+      label: "האם כבר יש לך חסכונות להשקעה?",
+      placeholder: "למשל 5000",
+      description: "אופציונלי: הוספת החסכונות הקיימים משפרת את הדיוק",
+    },
+    budget: { label: "💰 תקציב השקעה חודשי", description: "כמה ניתן להשקיע בכל חודש" },
+    goal: {
+      label: "🎯 מטרת ההשקעה",
+      usePresets: "בחירה מרשימה",
+      enterCustom: "מטרה אחרת",
+      customPlaceholder: "הזינו את מטרת ההשקעה",
+      presetPlaceholder: "בחרו את מטרת ההשקעה",
+      customDescription: "תארו את מטרת ההשקעה שלכם",
+      presetDescription: "לשם מה אתם משקיעים?",
+    },
+    riskLevel: {
+      label: "⚖️ רמת סיכון",
+      placeholder: "בחרו רמת סיכון",
+      description: "בחרו את רמת הסיכון המועדפת להשקעות",
+      recommended: "(מומלץ: {level} לטווח של {years} שנים)",
+    },
+    timeHorizon: {
+      label: "⏳ טווח השקעה",
+      minimum: "שנה אחת",
+      value: "{years} שנים",
+      maximum: "30 שנים",
+      description: "לכמה זמן אתם מתכננים להשקיע",
+    },
+    targetAmount: {
+      label: "🏁 סכום יעד",
+      placeholder: "למשל 500000",
+      description: "אופציונלי: כמה תרצו שיהיה לכם בסוף התקופה, כדי להעריך את הסיכוי להגיע לשם",
+    },
+    monthlyIncome: { label: "💼 הכנסה חודשית", description: "ההכנסה נטו שלך בכל חודש, אחרי מס" },
+    debts: {
+      label: "💳 חובות",
+      description: "הלוואות, משכנתאות ויתרות כרטיס אשראי שאתם מחזירים",
+      name: "שם",
+      namePlaceholder: "למשל הלוואת רכב",
+      balance: "יתרה",
+      interestRate: "ריבית (%)",
+      monthlyPayment: "החזר חודשי",
+      add: "הוספת חוב",
+      remove: "הסרה",
+      none: "לא נוספו חובות.",
+      payDownFirst: "{name} בריבית {rate}% עולה יותר ממה שתיק ברמת סיכון {level} צפוי להניב; כנראה עדיף לפרוע אותו קודם.",
+    },
+    emergencyFund: {
+      label: "🛟 קרן חירום",
+      placeholder: "בחרו את מצב קרן החירום",
+      description: "מזומן שמוקצה להוצאות בלתי צפויות",
+    },
+    dependents: { label: "👪 תלויים", description: "ילדים או אחרים שתלויים בהכנסה שלך" },
+    holdings: {
+      label: "📊 החזקות קיימות",
+      description: "מה שכבר בבעלותכם, לפי אפיק. מזומן, אג״ח, מניות והחזקות אחרות נכללים בתחזית.",
+      assetClass: "אפיק",
+      amount: "סכום",
+      add: "הוספת החזקה",
+      remove: "הסרה",
+      none: "לא נוספו החזקות.",
+      total: "נכלל בתחזיות: {amount}",
+    },
+  },
+  riskQuestionnaire: {
+    title: "🧭 לא בטוחים? ענו על שלוש שאלות",
+    description: "התשובות וטווח ההשקעה נותנים ציון סיכון שממנו נגזרת רמת סיכון מוצעת.",
+    questions: {
+      lossReaction: "אם ההשקעות שלכם היו יורדות ב-20% בחודש, הייתם…",
+      incomeStability: "עד כמה ההכנסה שלכם יציבה?",
+      experience: "כמה ניסיון יש לכם בהשקעות?",
+    },
+    answers: {
+      lossReaction: {
+        "sell-all": "מוכרים הכול",
+        "sell-some": "מוכרים חלק",
+        hold: "מחזיקים",
+        "buy-more": "קונים עוד",
+      },
+      incomeStability: {
+        unstable: "לא יציבה",
+        variable: "משתנה מחודש לחודש",
+        stable: "יציבה",
+        "very-stable": "יציבה מאוד, עם חסכונות בצד",
+      },
+      experience: {
+        none: "אין",
+        basic: "רק חסכונות ופנסיה",
+        experienced: "השקעתי בקרנות או במניות",
+        advanced: "אני משקיע/ה באופן פעיל",
+      },
+    },
+    placeholder: "בחרו תשובה",
+    factors: {
+      lossReaction: "תגובה להפסדים",
+      incomeStability: "יציבות ההכנסה",
+      experience: "ניסיון",
+      horizon: "טווח השקעה",
+    },
+    horizonAnswer: "{years} שנים",
+    factor: "{factor}: {answer} ({points}/{max} נקודות)",
+    score: "ציון סיכון {score}/100, המצביע על רמת סיכון {level}.",
+    capped: "מוגבל לרמת סיכון {level} בגלל טווח השקעה של {years} שנים.",
+    apply: "שימוש ברמה המוצעת",
+  },
+  goalsPlan: {
+    mainGoal: "המטרה העיקרית: {goal}, בעוד {years} שנים",
+    priority: "עדיפות המטרה העיקרית",
+    priorityDescription: "כשהתקציב לא מספיק לכל המטרות, מטרות בעדיפות גבוהה ממומנות קודם.",
+    otherGoals: "➕ מטרות נוספות",
+    otherGoalsDescription: "חוסכים ליותר מדבר אחד? הוסיפו כל מטרה עם יעד, טווח ועדיפות משלה.",
+    goal: "מטרה",
+    goalPlaceholder: "למשל פרישה",
+    targetAmount: "יעד (אופציונלי)",
+    timeHorizon: "שנים",
+    goalPriority: "עדיפות",
+    add: "הוספת מטרה",
+    remove: "הסרה",
+    none: "אין מטרות נוספות.",
+    split: "חלוקת התקציב",
+    monthly: "חודשי",
+    projected: "צפי",
+    target: "יעד",
+    onTrack: "בדרך ליעד",
+    shortfall: "לא יגיע ליעד",
+    inYears: "{years} שנים · עדיפות {priority}",
+    needs: "נדרש {amount} לחודש",
+  },
+  priorities: { high: "גבוהה", medium: "בינונית", low: "נמוכה" },
+  steps: {
+    basics: "מטרות ותקציב",
+    goals: "מטרות נוספות",
+    finances: "הכנסות וחובות",
+    holdings: "החזקות",
+    progress: "שלב {step} מתוך {count}",
+    back: "הקודם",
+    next: "הבא",
+  },
+  emergencyFundLevels: {
+    none: "אין",
+    partial: "פחות מ-3 חודשי הוצאות",
+    full: "3 חודשי הוצאות או יותר",
+  },
+  assetClasses: {
+    cash: "מזומן ופיקדונות",
+    bonds: "אג״ח",
+    equities: "מניות",
+    "real-estate": "נדל״ן",
+    pension: "פנסיה וקופות גמל",
+    other: "אחר",
+  },
+  goals: {
+    retirement: "תכנון פרישה",
+    house: "קניית דירה",
+    education: "קרן לימודים",
+    wealth: "בניית הון",
+  },
+  riskLevels: { low: "נמוכה", medium: "בינונית", high: "גבוהה" },
+  currencies: { ILS: "שקל חדש (₪)", USD: "דולר אמריקאי ($)", EUR: "אירו (€)", GBP: "ליש״ט (£)" },
+  validation: {
+    age: "הגיל חייב להיות מספר חיובי",
+    startingSavings: "החסכונות ההתחלתיים חייבים להיות מספר חיובי",
+    budget: "התקציב החודשי חייב להיות מספר חיובי",
+    goalRequired: "נא להזין או לבחור מטרת השקעה",
+    goalTooLong: "מטרת ההשקעה יכולה להכיל עד 200 תווים",
+    riskLevel: "נא לבחור רמת סיכון",
+    timeHorizonMin: "טווח ההשקעה חייב להיות שנה אחת לפחות",
+    timeHorizonMax: "טווח ההשקעה המרבי הוא 50 שנים",
+    targetAmount: "סכום היעד חייב להיות מספר חיובי",
+    monthlyIncome: "ההכנסה החודשית חייבת להיות מספר חיובי",
+    debtName: "נא לתת שם לחוב",
+    debtNameTooLong: "שם החוב יכול להכיל עד 60 תווים",
+    debtBalance: "היתרה חייבת להיות מספר חיובי",
+    debtInterestRate: "הריבית חייבת להיות בין 0% ל-100%",
+    debtMonthlyPayment: "ההחזר החודשי חייב להיות מספר חיובי",
+    tooManyDebts: "ניתן להוסיף עד 10 חובות",
+    dependents: "מספר התלויים חייב להיות מספר שלם בין 0 ל-20",
+    holdingAmount: "הסכום חייב להיות מספר חיובי",
+    tooManyGoals: "ניתן להוסיף עד 4 מטרות נוספות",
+  },
+  actions: {
+    generate: "יצירת המלצה",
+    generating: "יוצר...",
+    cancel: "ביטול",
+    reset: "איפוס",
+    addVariant: "הוספה להשוואה",
+    updateVariant: "עדכון תרחיש",
+    runSimulation: "הרצת סימולציה",
+    runAgain: "הרצה חוזרת",
+    simulating: "מריץ סימולציה...",
+  },
+  sections: {
+    recommendation: "המלצת AI:",
+    generatedBy: "{model} · תבנית {template} גרסה {version}",
+    wordingAdjusted: "חלק מהניסוחים שונו כדי לא להבטיח תשואות.",
+    projection: "📈 תחזית:",
+    simulation: "🎲 סימולציה:",
+    simulationHint: "ראו את טווח התוצאות האפשריות על פני אלפי תרחישי שוק אקראיים.",
+    goals: "🎯 מטרות:",
+    comparison: "⚖️ השוואת תרחישים:",
+    history: "🕘 היסטוריה:",
+  },
+  share: {
+    button: "שיתוף",
+    title: "🔗 שיתוף הנתונים",
+    description: "מי שיפתח את הקישור יקבל את הטופס ממולא בדיוק כפי שהוא עכשיו.",
+    includeRecommendation: "לכלול את ההמלצה, כך שתוצג בלי ליצור אותה מחדש",
+    copy: "העתקה",
+    copied: "הועתק",
+    copyFailed: "לא ניתן להעתיק את הקישור; סמנו והעתיקו אותו ידנית.",
+    shorten: "יצירת קישור מקוצר",
+    shortening: "יוצר...",
+    failed: "יצירת הקישור המקוצר נכשלה.",
+    close: "סגירה",
+    invalid: "הקישור המשותף אינו תקין או שייך לגרסה שאינה נתמכת.",
+  },
+  export: {
+    label: "הורדה:",
+    formats: { pdf: "דוח PDF", md: "Markdown", csv: "תחזית (CSV)" },
+    exporting: "מכין...",
+    failed: "ייצוא ההמלצה נכשל.",
+  },
+  projection: {
+    balance: "יתרה צפויה",
+    realBalance: "בערכי היום",
+    contributions: "ההפקדות שלך",
+    growth: "צמיחת ההשקעה",
+    chartLabel: "יתרה צפויה לפי שנה",
+    yearTooltip: "שנה {year}: {balance} (הפקדות {contributions}, צמיחה {growth})",
+    legend: { contributions: "הפקדות", growth: "צמיחה", realBalance: "יתרה מתואמת לאינפלציה" },
+    schedule: "פירוט לפי שנה",
+    columns: { year: "שנה", contributions: "הפקדות", growth: "צמיחה", balance: "יתרה", realBalance: "בערכי היום" },
+    yearWithAge: "{year} (גיל {age})",
+    assumptions: "בהנחה של תשואה שנתית של {expectedReturn}% ואינפלציה של {inflationRate}%. התשואות בפועל משתנות.",
+  },
+  simulation: {
+    chance: "סיכוי להגיע ל-{amount}",
+    p10: "פסימי (אחוזון 10)",
+    p50: "חציון",
+    p90: "אופטימי (אחוזון 90)",
+    chartLabel: "טווח היתרות בסימולציה לפי שנה",
+    legend: { band: "אחוזונים 10–90", median: "חציון", target: "יעד" },
+    basedOn: "מבוסס על {paths} תרחישי שוק מדומים (seed {seed}).",
+  },
+  plan: {
+    columns: { assetClass: "אפיק השקעה", allocation: "הקצאה", instruments: "מכשירים" },
+    rebalancing: "🔁 איזון מחדש",
+    rationale: "💡 נימוק",
+    warnings: "⚠️ אזהרות",
+    cadences: { monthly: "כל חודש", quarterly: "כל רבעון", semiannually: "כל חצי שנה", annually: "כל שנה" },
+  },
+  history: {
+    empty: "ההמלצות שתיצרו יופיעו כאן.",
+    perMonth: "{amount} לחודש",
+    savedLocally: "נשמר בדפדפן הזה",
+    open: "פתיחה",
+    rerun: "הרצה חוזרת",
+    rename: "שינוי שם",
+    save: "שמירה",
+    delete: "מחיקה",
+    defaultName: "{goal} · סיכון {risk} · {years} שנים",
+    renameFailed: "שינוי שם התרחיש נכשל.",
+    deleteFailed: "מחיקת התרחיש נכשלה.",
+  },
+  comparison: {
+    empty: "מלאו את הטופס ולחצו על \"{action}\" כדי להשוות עד {count} תרחישים זה לצד זה.",
+    baseline: "בסיס",
+    scenario: "תרחיש {letter}",
+    edit: "עריכה",
+    remove: "הסרה",
+    rows: {
+      age: "גיל",
+      startingSavings: "חסכונות התחלתיים",
+      budget: "תקציב חודשי",
+      goals: "מטרות",
+      riskLevel: "רמת סיכון",
+      timeHorizon: "טווח השקעה",
+      targetAmount: "סכום יעד",
+      monthlyIncome: "הכנסה חודשית",
+      debts: "חובות",
+      holdings: "החזקות קיימות",
+      recommendation: "המלצה",
+    },
+    generateAll: "יצירת המלצות לכל התרחישים",
+    otherCurrency: "מטבע שונה, ללא השוואה",
+  },
+  advanced: {
+    title: "הגדרות יצירה מתקדמות",
+    model: "מודל",
+    defaultModel: "מודל ברירת המחדל",
+    maxTokens: "מספר טוקנים מרבי",
+    temperature: "טמפרטורה",
+    topP: "Top-p",
+    seed: "Seed",
+    randomSeed: "אקראי",
+    stop: "רצפי עצירה",
+    stopPlaceholder: "למשל \\n\\n, ###",
+    stopHint: "מופרדים בפסיקים, עד {count}; \\n מסמן ירידת שורה",
+    useDefaults: "שימוש בברירות המחדל",
+  },
+  errors: {
+    simulate: "הרצת הסימולציה נכשלה.",
+    retry: "נסו שוב",
+    codes: {
+      INVALID_INPUT: "חלק מהנתונים נדחו. בדקו את השדות המסומנים.",
+      UNAUTHORIZED: "השרת דורש מפתח API כדי ליצור המלצות.",
+      NOT_FOUND: "הפריט המבוקש כבר לא קיים.",
+      RATE_LIMITED: "נשלחו יותר מדי בקשות. המתינו רגע ונסו שוב.",
+      GENERATION_CANCELLED: "היצירה בוטלה.",
+      GUARDRAIL_REJECTED: "ההמלצה נחסמה כי לא עברה את בדיקות הציות. יצירה מחדש בדרך כלל עוזרת.",
+      INVALID_OUTPUT: "מודל ה-AI החזיר תשובה שלא ניתן להשתמש בה.",
+      GENERATION_FAILED: "משהו השתבש ביצירת ההמלצה.",
+      MODEL_UNAVAILABLE: "מודל ה-AI אינו זמין כרגע. נסו שוב בעוד כמה דקות.",
+      SERVER_BUSY: "השרת עסוק בהמלצות אחרות. נסו שוב בעוד רגע.",
+      GENERATION_TIMEOUT: "יצירת ההמלצה ארכה זמן רב מדי.",
+      STORAGE_ERROR: "השרת לא הצליח לשמור או לקרוא את הנתונים.",
+      INTERNAL_ERROR: "משהו השתבש בשרת.",
+    },
+  },
+};
+
+export const messages: Record<Locale, Messages> = { en, he };
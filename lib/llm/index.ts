@@ -0,0 +1,49 @@
+import { InstrumentedProvider } from '@/lib/llm/instrumented';
+import { MockProvider } from '@/lib/llm/mock';
+import { OpenAIProvider } from '@/lib/llm/openai';
+import { PythonProvider } from '@/lib/llm/python';
+import type { LLMProvider, ProviderName } from '@/lib/llm/types';
+
+export type { GenerationRequest, GenerationResult, LLMProvider, ProviderHealth, ProviderName } from '@/lib/llm/types';
+
+const modelList = (value: string | undefined) =>
+  (value ?? '').split(',').map((model) => model.trim()).filter(Boolean);
+
+// Builds the provider selected by the environment:
+//   LLM_PROVIDER     python (default) | openai | mock
+//   PYTHON_MODEL     Hugging Face model generate.py loads at startup
+//                    (default: EleutherAI/gpt-neo-125M)
+//   PYTHON_MODELS    comma-separated further models requests may pick
+//   OPENAI_BASE_URL  OpenAI-compatible endpoint (default: api.openai.com)
+//   OPENAI_API_KEY   API key for that endpoint
+//   OPENAI_MODEL     default model name to request (default: gpt-4o-mini)
+//   OPENAI_MODELS    comma-separated further models requests may pick
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || 'python') as ProviderName;
+  switch (name) {
+    case 'python':
+      return new PythonProvider({
+        model: env.PYTHON_MODEL || 'EleutherAI/gpt-neo-125M',
+        models: modelList(env.PYTHON_MODELS),
+      });
+    case 'openai':
+      return new OpenAIProvider({
+        model: env.OPENAI_MODEL || 'gpt-4o-mini',
+        models: modelList(env.OPENAI_MODELS),
+        baseURL: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected python, openai or mock.`);
+  }
+}
+
+let provider: LLMProvider | undefined;
+
+// The configured provider, timed and logged (see lib/llm/instrumented.ts)
+export function getProvider(): LLMProvider {
+  provider ??= new InstrumentedProvider(createProvider());
+  return provider;
+}
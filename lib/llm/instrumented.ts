@@ -0,0 +1,49 @@
+import { getLogger } from '@/lib/logger';
+import { getMetrics } from '@/lib/metrics';
+import type { GenerationRequest, GenerationResult, LLMProvider, ProviderHealth } from '@/lib/llm/types';
+
+// Times every generation and logs its outcome, around any provider
+export class InstrumentedProvider implements LLMProvider {
+  constructor(private readonly provider: LLMProvider) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  get models() {
+    return this.provider.models;
+  }
+
+  health(): Promise<ProviderHealth> {
+    return this.provider.health();
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const started = performance.now();
+    const result = await this.provider.generate(request);
+    const seconds = (performance.now() - started) / 1000;
+    const model = result.ok ? result.model : (request.options?.model ?? this.provider.model);
+    const outcome = result.ok ? 'ok' : result.code;
+    getMetrics().generationDuration.observe({ provider: this.provider.name, model, outcome }, seconds);
+
+    const fields = {
+      provider: this.provider.name,
+      model,
+      outcome,
+      durationMs: Math.round(seconds * 1000),
+      stream: request.onToken !== undefined,
+    };
+    if (result.ok) {
+      getLogger().info('Generation finished', { ...fields, characters: result.text.length });
+    } else if (result.code === 'GENERATION_CANCELLED') {
+      getLogger().info('Generation cancelled', fields);
+    } else {
+      getLogger().warn('Generation failed', { ...fields, error: result.error, code: result.code });
+    }
+    return result;
+  }
+}
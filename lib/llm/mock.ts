@@ -0,0 +1,82 @@
+import { truncateAtStop } from '@/lib/generationOptions';
+import type { GenerationRequest, GenerationResult, LLMProvider, ProviderHealth } from '@/lib/llm/types';
+
+const RESPONSES = [
+  'Split your monthly budget between a broad index fund and government bonds, and rebalance once a year.',
+  'Build an emergency fund first, then invest the rest of your budget in a diversified low-cost ETF portfolio.',
+  'Favor a global equity index fund for long-term growth, keeping a smaller bond allocation to reduce volatility.',
+];
+
+// Returned when the prompt asks for a structured plan (see lib/plan.ts)
+const PLAN_RESPONSE = {
+  summary: 'A diversified, index-based portfolio with a bond cushion.',
+  allocations: [
+    { assetClass: 'Equities', percentage: 60, instruments: ['Global index ETFs', 'Local index funds'] },
+    { assetClass: 'Bonds', percentage: 30, instruments: ['Government bond funds'] },
+    { assetClass: 'Cash', percentage: 10, instruments: ['Money market funds'] },
+  ],
+  rebalancing: 'annually',
+  rationale: 'Broad equity exposure drives growth while bonds and cash limit drawdowns.',
+  warnings: ['Past performance does not guarantee future results.'],
+};
+
+// Answers the per-goal entries the plan prompt asks for, if any
+function planFor(prompt: string) {
+  const goals = [...prompt.matchAll(/"goal":"([^"]+)"/g)].map((match) => match[1]);
+  if (goals.length === 0) return PLAN_RESPONSE;
+  return {
+    ...PLAN_RESPONSE,
+    goals: goals.map((goal, i) => ({ goal, recommendation: RESPONSES[(hash(goal) + i) % RESPONSES.length] })),
+  };
+}
+
+// Simple string hash so the same prompt always maps to the same response
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Deterministic provider for tests and offline development; needs no model
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  readonly models = ['mock'];
+
+  // tokenDelayMs paces streamed words so the UI can be exercised realistically
+  constructor(private readonly tokenDelayMs = 30) {}
+
+  async health(): Promise<ProviderHealth> {
+    return { status: 'ok' };
+  }
+
+  async generate({ prompt, options, signal, onToken, deadline }: GenerationRequest): Promise<GenerationResult> {
+    let answer = prompt.includes('"allocations"')
+      ? JSON.stringify(planFor(prompt))
+      : RESPONSES[hash(prompt) % RESPONSES.length];
+    // Words stand in for tokens; the echoed prompt doesn't count, as with generate.py
+    if (options) {
+      answer = truncateAtStop(answer, options.stop).split(' ').slice(0, options.maxTokens).join(' ');
+    }
+    // Like generate.py, the prompt is echoed in the result but not streamed
+    const text = `${prompt} ${answer}`;
+    if (onToken) {
+      for (const token of answer.match(/\S+\s*/g) ?? []) {
+        if (signal?.aborted || (deadline !== undefined && Date.now() > deadline)) break;
+        onToken(token);
+        await sleep(this.tokenDelayMs);
+      }
+    }
+    if (signal?.aborted) {
+      return { ok: false, error: 'Generation cancelled.', provider: this.name, code: 'GENERATION_CANCELLED' };
+    }
+    if (deadline !== undefined && Date.now() > deadline) {
+      return { ok: false, error: 'Generation timed out.', provider: this.name, code: 'GENERATION_TIMEOUT' };
+    }
+    return { ok: true, text, provider: this.name, model: options?.model ?? this.model };
+  }
+}
@@ -0,0 +1,109 @@
+import OpenAI, { APIConnectionError, APIConnectionTimeoutError, APIError } from 'openai';
+import type { ErrorCode } from '@/lib/errors';
+import type { GenerationRequest, GenerationResult, LLMProvider, ProviderHealth } from '@/lib/llm/types';
+
+export interface OpenAIProviderOptions {
+  model: string;
+  // Further models a request may pick
+  models?: string[];
+  baseURL?: string;
+  apiKey?: string;
+}
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Whether a failed call was the endpoint's fault (unreachable, refusing the
+// key, overloaded or missing the model) or the generation's
+function failureCode(e: unknown): ErrorCode {
+  if (e instanceof APIConnectionTimeoutError) return 'GENERATION_TIMEOUT';
+  if (e instanceof APIConnectionError) return 'MODEL_UNAVAILABLE';
+  if (e instanceof APIError && e.status !== undefined) {
+    if (e.status === 429) return 'SERVER_BUSY';
+    if (e.status === 401 || e.status === 403 || e.status === 404 || e.status >= 500) return 'MODEL_UNAVAILABLE';
+  }
+  return 'GENERATION_FAILED';
+}
+
+// Talks to any OpenAI-compatible chat completions endpoint, including local
+// stand-ins such as llama.cpp, vLLM or Ollama.
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly models: string[];
+  private readonly client: OpenAI;
+
+  constructor({ model, models = [], baseURL, apiKey }: OpenAIProviderOptions) {
+    this.model = model;
+    this.models = [...new Set([model, ...models])];
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' });
+  }
+
+  // Lists the endpoint's models. Names differ between servers (e.g. Ollama's
+  // "llama3:latest"), so configured models missing from the list are only
+  // reported, not treated as down.
+  async health(): Promise<ProviderHealth> {
+    try {
+      const served = new Set<string>();
+      for await (const model of this.client.models.list({ timeout: HEALTH_TIMEOUT_MS, maxRetries: 0 })) {
+        served.add(model.id);
+      }
+      const unlisted = this.models.filter((model) => !served.has(model));
+      return { status: 'ok', details: { model: this.model, models: this.models, unlisted } };
+    } catch (e) {
+      return { status: 'down', message: e instanceof Error ? e.message : 'The endpoint is unreachable.' };
+    }
+  }
+
+  async generate({ prompt, options, signal, onToken, deadline }: GenerationRequest): Promise<GenerationResult> {
+    const timeout = deadline === undefined ? undefined : Math.max(1, deadline - Date.now());
+    try {
+      const body = {
+        model: options?.model ?? this.model,
+        messages: [{ role: 'user' as const, content: prompt }],
+        max_tokens: options?.maxTokens,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        seed: options?.seed,
+        stop: options?.stop.length ? options.stop : undefined,
+      };
+      let text = '';
+      let model = body.model;
+      if (onToken) {
+        const stream = await this.client.chat.completions.create(
+          { ...body, stream: true },
+          { signal, timeout, maxRetries: 0 },
+        );
+        for await (const chunk of stream) {
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) {
+            text += token;
+            onToken(token);
+          }
+          model = chunk.model || model;
+        }
+      } else {
+        const completion = await this.client.chat.completions.create(
+          body,
+          { signal, timeout, maxRetries: 0 },
+        );
+        text = completion.choices[0]?.message?.content ?? '';
+        model = completion.model || model;
+      }
+      if (!text) {
+        const error = 'The model returned an empty response.';
+        return { ok: false, error, provider: this.name, code: 'INVALID_OUTPUT' };
+      }
+      return { ok: true, text, provider: this.name, model };
+    } catch (e) {
+      if (signal?.aborted) {
+        return { ok: false, error: 'Generation cancelled.', provider: this.name, code: 'GENERATION_CANCELLED' };
+      }
+      if (e instanceof APIConnectionTimeoutError) {
+        return { ok: false, error: 'Generation timed out.', provider: this.name, code: 'GENERATION_TIMEOUT' };
+      }
+      const error = e instanceof Error ? e.message : 'OpenAI request failed.';
+      return { ok: false, error, provider: this.name, code: failureCode(e) };
+    }
+  }
+}
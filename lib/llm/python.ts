@@ -0,0 +1,57 @@
+import { isErrorCode } from '@/lib/errors';
+import { getPythonWorkerPool } from '@/lib/python/workerPool';
+import type { GenerationRequest, GenerationResult, LLMProvider, ProviderHealth } from '@/lib/llm/types';
+
+export interface PythonProviderOptions {
+  // Loaded by generate.py at startup; must match its PYTHON_MODEL
+  model: string;
+  // Further Hugging Face models a request may pick; loaded on first use
+  models: string[];
+}
+
+// Runs prompts through the local Hugging Face model in generate.py
+export class PythonProvider implements LLMProvider {
+  readonly name = 'python';
+  readonly model: string;
+  readonly models: string[];
+
+  constructor({ model, models }: PythonProviderOptions) {
+    this.model = model;
+    this.models = [...new Set([model, ...models])];
+  }
+
+  // Starts the pool if no request has yet, so a readiness probe also warms
+  // the workers. A worker is ready once generate.py has loaded the model.
+  async health(): Promise<ProviderHealth> {
+    const workers = getPythonWorkerPool().stats();
+    const details = { workers, model: this.model, models: this.models };
+    if (workers.ready > 0) return { status: 'ok', details };
+    if (workers.alive > 0) return { status: 'starting', message: `Loading ${this.model}.`, details };
+    return { status: 'down', message: 'No Python worker is running; restarting.', details };
+  }
+
+  async generate({ prompt, options, signal, onToken, deadline }: GenerationRequest): Promise<GenerationResult> {
+    const model = options?.model ?? this.model;
+    const { result, error, code } = await getPythonWorkerPool().request(
+      {
+        prompt,
+        model,
+        max_tokens: options?.maxTokens,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        seed: options?.seed,
+        stop: options?.stop,
+      },
+      { signal, onToken, deadline },
+    );
+    if (error) {
+      // generate.py and the pool send a code from lib/errors.ts with every error
+      return { ok: false, error, provider: this.name, code: isErrorCode(code) ? code : 'GENERATION_FAILED' };
+    }
+    if (typeof result !== 'string') {
+      const error = 'No valid JSON output from Python script.';
+      return { ok: false, error, provider: this.name, code: 'INVALID_OUTPUT' };
+    }
+    return { ok: true, text: result, provider: this.name, model };
+  }
+}
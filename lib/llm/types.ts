@@ -0,0 +1,54 @@
+import type { ErrorCode } from '@/lib/errors';
+import type { GenerationOptions } from '@/lib/generationOptions';
+
+export type ProviderName = 'python' | 'openai' | 'mock';
+
+export interface GenerationRequest {
+  prompt: string;
+  // Model and sampling settings; providers fall back to their defaults
+  options?: GenerationOptions;
+  // Aborts the generation, e.g. when the HTTP client disconnects
+  signal?: AbortSignal;
+  // When set, the provider streams and calls this for every text fragment
+  onToken?: (token: string) => void;
+  // Epoch ms by which the generation must finish
+  deadline?: number;
+}
+
+export interface GenerationSuccess {
+  ok: true;
+  text: string;
+  provider: ProviderName;
+  model: string;
+}
+
+export interface GenerationFailure {
+  ok: false;
+  error: string;
+  provider: ProviderName;
+  // What went wrong, which also picks the HTTP status (see lib/errors.ts)
+  code: ErrorCode;
+}
+
+// Every provider resolves with one of these instead of throwing, so the route
+// can map failures to HTTP responses in one place.
+export type GenerationResult = GenerationSuccess | GenerationFailure;
+
+export interface ProviderHealth {
+  // `starting` while the model loads; only `ok` can serve a generation now
+  status: 'ok' | 'starting' | 'down';
+  message?: string;
+  // Provider-specific facts, e.g. the Python pool's worker counts
+  details?: Record<string, unknown>;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  // Default model, used when a request doesn't pick one
+  readonly model: string;
+  // Every model a request may pick, including the default
+  readonly models: readonly string[];
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  // Whether the provider can generate right now; resolves, never throws
+  health(): Promise<ProviderHealth>;
+}
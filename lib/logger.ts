@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof logLevels)[number];
+
+export type LogFields = Record<string, unknown>;
+
+const globalForLogger = globalThis as unknown as {
+  logger?: Logger;
+  logContext?: AsyncLocalStorage<LogFields>;
+};
+
+// Fields every line logged while handling a request carries, e.g. its id.
+// Shared through globalThis like the logger: each route may load its own
+// copy of this module.
+const requestContext = (globalForLogger.logContext ??= new AsyncLocalStorage<LogFields>());
+
+// Runs `fn` with `fields` attached to everything it logs, including from
+// callbacks and promises it starts
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return requestContext.run({ ...requestContext.getStore(), ...fields }, fn);
+}
+
+// Runs `fn` without the current request's fields, for long-lived resources
+// such as worker processes that outlive the request that started them
+export function withoutLogContext<T>(fn: () => T): T {
+  return requestContext.exit(fn);
+}
+
+// The id of the request being handled, if any
+export function currentRequestId(): string | undefined {
+  const id = requestContext.getStore()?.requestId;
+  return typeof id === 'string' ? id : undefined;
+}
+
+// Errors don't serialize to JSON on their own
+function serialize(value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+}
+
+// Writes one JSON object per line: `time`, `level`, `msg`, the request
+// context and the logger's own fields. Warnings and errors go to stderr.
+export class Logger {
+  constructor(
+    private readonly minLevel: LogLevel = 'info',
+    private readonly fields: LogFields = {},
+  ) {}
+
+  // A logger that adds `fields` to every line
+  child(fields: LogFields): Logger {
+    return new Logger(this.minLevel, { ...this.fields, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}) {
+    if (logLevels.indexOf(level) < logLevels.indexOf(this.minLevel)) return;
+    const entry: LogFields = { time: new Date().toISOString(), level, msg, ...requestContext.getStore(), ...this.fields };
+    for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value);
+    const line = JSON.stringify(entry) + '\n';
+    if (level === 'warn' || level === 'error') {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+// Reads the minimum level from the environment:
+//   LOG_LEVEL  debug | info (default) | warn | error
+export function logLevelFromEnv(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = (env.LOG_LEVEL ?? '').toLowerCase() as LogLevel;
+  return logLevels.includes(level) ? level : 'info';
+}
+
+export function getLogger(): Logger {
+  globalForLogger.logger ??= new Logger(logLevelFromEnv());
+  return globalForLogger.logger;
+}
@@ -0,0 +1,148 @@
+// In-process metrics rendered in the Prometheus text exposition format. Only
+// what this app needs: labelled counters and histograms it updates itself,
+// and gauges read from the components that own the numbers when scraped.
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples(): Sample[];
+}
+
+// Seconds; covers fast API calls up to a slow CPU-bound generation
+export const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels = {}): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their label set, written in a fixed order
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+export class Counter {
+  private readonly series = new Map<string, Sample>();
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key) ?? { labels, value: 0 };
+    sample.value += amount;
+    this.series.set(key, sample);
+  }
+
+  samples(): Sample[] {
+    return [...this.series.values()];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  // Cumulative buckets as `_bucket` samples, then `_sum` and `_count`
+  samples(): (Sample & { suffix: string })[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, i) => ({ suffix: '_bucket', labels: { ...labels, le: String(bound) }, value: counts[i] })),
+      { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count },
+      { suffix: '_sum', labels, value: sum },
+      { suffix: '_count', labels, value: count },
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    const counter = new Counter();
+    this.register({ name, help, type: 'counter', samples: () => counter.samples() });
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const histogram = new Histogram(buckets);
+    this.register({ name, help, type: 'histogram', samples: () => histogram.samples() });
+    return histogram;
+  }
+
+  // A value owned elsewhere, read by `collect` on every scrape. Counters kept
+  // by other components (e.g. worker restarts) register here as well.
+  // Registering a name again replaces it, so modules can re-register on reload.
+  collected(name: string, help: string, type: 'counter' | 'gauge', collect: () => Sample[]) {
+    this.register({ name, help, type, samples: collect });
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+      for (const sample of metric.samples()) {
+        const suffix = 'suffix' in sample ? String(sample.suffix) : '';
+        lines.push(`${metric.name}${suffix}${formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register(metric: Metric) {
+    this.metrics.set(metric.name, metric);
+  }
+}
+
+function createMetrics() {
+  const registry = new MetricsRegistry();
+  return {
+    registry,
+    httpRequests: registry.counter('investgpt_http_requests_total', 'API requests by route, method and status.'),
+    httpDuration: registry.histogram(
+      'investgpt_http_request_duration_seconds',
+      'Time until the response headers were sent, by route and method.',
+    ),
+    httpErrors: registry.counter('investgpt_http_errors_total', 'Failed API requests by route and error category.'),
+    generationDuration: registry.histogram(
+      'investgpt_generation_duration_seconds',
+      'Time spent in the LLM provider per generation, by provider, model and outcome.',
+    ),
+  };
+}
+
+export type AppMetrics = ReturnType<typeof createMetrics>;
+
+// Kept on globalThis so hot reloads in `next dev` don't reset the counters
+const globalForMetrics = globalThis as unknown as { metrics?: AppMetrics };
+
+export function getMetrics(): AppMetrics {
+  globalForMetrics.metrics ??= createMetrics();
+  return globalForMetrics.metrics;
+}
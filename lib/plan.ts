@@ -0,0 +1,164 @@
+import * as z from "zod";
+import type { ErrorCode } from "@/lib/errors";
+import type { GenerationOptions } from "@/lib/generationOptions";
+import type { LLMProvider } from "@/lib/llm/types";
+import { stripEcho } from "@/lib/postprocess";
+
+export const rebalancingCadences = ["monthly", "quarterly", "semiannually", "annually"] as const;
+
+export const investmentPlanSchema = z.object({
+  summary: z.string().min(1, "summary must not be empty"),
+  allocations: z
+    .array(
+      z.object({
+        assetClass: z.string().min(1, "assetClass must not be empty"),
+        percentage: z.number().min(0).max(100),
+        instruments: z.array(z.string().min(1)).min(1, "list at least one instrument category"),
+      })
+    )
+    .min(1, "include at least one allocation")
+    .refine(
+      (allocations) => Math.abs(allocations.reduce((sum, a) => sum + a.percentage, 0) - 100) <= 1,
+      "allocation percentages must add up to 100"
+    ),
+  rebalancing: z.enum(rebalancingCadences),
+  rationale: z.string().min(1, "rationale must not be empty"),
+  warnings: z.array(z.string()),
+  // One entry per goal when the investor has several
+  goals: z
+    .array(
+      z.object({
+        goal: z.string().min(1, "goal must not be empty"),
+        recommendation: z.string().min(1, "recommendation must not be empty"),
+      })
+    )
+    .optional(),
+});
+
+export type InvestmentPlan = z.infer<typeof investmentPlanSchema>;
+
+export type PlanParseResult =
+  | { success: true; plan: InvestmentPlan }
+  | { success: false; issues: string[] };
+
+// Shown to the model so it knows the exact shape to produce
+const PLAN_EXAMPLE: InvestmentPlan = {
+  summary: "One sentence describing the strategy.",
+  allocations: [
+    { assetClass: "Equities", percentage: 60, instruments: ["Global index ETFs"] },
+    { assetClass: "Bonds", percentage: 30, instruments: ["Government bond funds"] },
+    { assetClass: "Cash", percentage: 10, instruments: ["Money market funds"] },
+  ],
+  rebalancing: "annually",
+  rationale: "Why this allocation fits the investor.",
+  warnings: ["Risks the investor should be aware of."],
+};
+
+// Helper to ask for the plan as JSON instead of free text. With several
+// goals the example gains a "goals" entry for each of them.
+export function buildPlanPrompt(prompt: string, goals: string[] = []): string {
+  const example: InvestmentPlan =
+    goals.length > 1
+      ? { ...PLAN_EXAMPLE, goals: goals.map((goal) => ({ goal, recommendation: "How to invest for this goal." })) }
+      : PLAN_EXAMPLE;
+  return `${prompt}
+
+Respond with only a JSON object, no other text, in exactly this shape:
+${JSON.stringify(example)}
+"percentage" values must add up to 100 and "rebalancing" must be one of: ${rebalancingCadences.join(", ")}.`;
+}
+
+// Helper to ask the model to fix its previous, invalid answer
+export function buildRepairPrompt(planPrompt: string, output: string, issues: string[]): string {
+  return `${planPrompt}
+
+Your previous answer was:
+${output}
+
+It was rejected for these reasons:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with only the corrected JSON object.`;
+}
+
+// Pulls the outermost JSON object out of model output, tolerating code fences
+// and chatter around it, and validates it against the plan schema.
+export function parsePlan(output: string): PlanParseResult {
+  const start = output.indexOf("{");
+  const end = output.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { success: false, issues: ["the answer did not contain a JSON object"] };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(output.slice(start, end + 1));
+  } catch (e) {
+    return { success: false, issues: [`the JSON was malformed (${e instanceof Error ? e.message : "parse error"})`] };
+  }
+  const parsed = investmentPlanSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map((issue) =>
+        issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+  return { success: true, plan: parsed.data };
+}
+
+export interface GeneratePlanOptions {
+  prompt: string;
+  // Names of the investor's goals, when there is more than one
+  goals?: string[];
+  // Used for every attempt
+  options?: GenerationOptions;
+  signal?: AbortSignal;
+  // Applies to all attempts together
+  deadline?: number;
+  onToken?: (token: string) => void;
+  // Called before each repair attempt so streaming clients can discard the bad output
+  onRetry?: (attempt: number, issues: string[]) => void;
+  maxAttempts?: number;
+}
+
+export type PlanGenerationResult =
+  | { ok: true; plan: InvestmentPlan; text: string; provider: string; model: string; attempts: number }
+  | { ok: false; code: ErrorCode; error: string; issues?: string[]; text?: string; provider: string };
+
+// Generates a plan, feeding validation errors back to the model until it
+// produces a valid one or maxAttempts is reached.
+export async function generatePlan(
+  provider: LLMProvider,
+  { prompt, goals, options, signal, deadline, onToken, onRetry, maxAttempts = 3 }: GeneratePlanOptions
+): Promise<PlanGenerationResult> {
+  const planPrompt = buildPlanPrompt(prompt, goals);
+  let request = planPrompt;
+  let issues: string[] = [];
+  let text = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) onRetry?.(attempt, issues);
+    const generation = await provider.generate({ prompt: request, options, signal, deadline, onToken });
+    if (!generation.ok) {
+      return { ok: false, code: generation.code, error: generation.error, provider: generation.provider };
+    }
+    // Some local models echo the prompt, which contains an example object
+    text = stripEcho(generation.text, request).trim();
+    const parsed = parsePlan(text);
+    if (parsed.success) {
+      return { ok: true, plan: parsed.plan, text, provider: generation.provider, model: generation.model, attempts: attempt };
+    }
+    issues = parsed.issues;
+    request = buildRepairPrompt(planPrompt, text, issues);
+  }
+
+  return {
+    ok: false,
+    code: "INVALID_OUTPUT",
+    error: "The model did not return a valid investment plan.",
+    issues,
+    text,
+    provider: provider.name,
+  };
+}
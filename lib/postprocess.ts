@@ -0,0 +1,117 @@
+// Cleans up raw model output before it is shown as a recommendation. Small
+// local models echo the prompt, stop mid-sentence and fall into repetition
+// loops; each step below undoes one of those habits.
+
+export type PostprocessResult =
+  | { ok: true; text: string }
+  | { ok: false; error: string; text: string };
+
+// Removes the prompt when the model repeats it at the start of its output
+export function stripEcho(text: string, prompt: string): string {
+  const head = text.trimStart();
+  const expected = prompt.trim();
+  return expected && head.startsWith(expected) ? head.slice(expected.length) : text;
+}
+
+const SENTENCE_END = /[.!?]["')\]]?$/;
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s/;
+
+// Collapses phrases repeated three or more times in a row ("buy funds buy
+// funds buy funds") and drops sentences that already appeared earlier.
+export function collapseRepetition(text: string): string {
+  const seen = new Set<string>();
+  return text
+    .replace(/(\b[^.!?\n]{4,100}?)(?:\s+\1\b){2,}/gi, "$1")
+    .split("\n")
+    .map((line) =>
+      line
+        .split(/(?<=[.!?]["')\]]?)\s+/)
+        .filter((sentence) => {
+          const key = sentence.toLowerCase().replace(/\W+/g, " ").trim();
+          if (!key) return true;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .join(" "),
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+// Periods that don't end a sentence
+const ABBREVIATIONS = new Set(["e.g.", "i.e.", "etc.", "vs.", "approx.", "incl.", "est.", "no.", "p.a.", "mr.", "mrs.", "ms.", "dr."]);
+
+// Whether the text up to `end` finishes with an abbreviation such as "e.g."
+const endsWithAbbreviation = (line: string, end: number) =>
+  ABBREVIATIONS.has(line.slice(0, end).match(/[\p{L}.]+$/u)?.[0].toLowerCase() ?? "");
+
+// Drops a final sentence the model was cut off in the middle of. List items
+// often have no closing punctuation, so they are kept. Periods of
+// abbreviations and decimals ("e.g.", "3.5") are not sentence ends.
+export function trimIncompleteSentence(text: string): string {
+  const trimmed = text.trimEnd();
+  const lastBreak = trimmed.lastIndexOf("\n");
+  const lastLine = trimmed.slice(lastBreak + 1);
+  const complete = SENTENCE_END.test(lastLine) && !endsWithAbbreviation(lastLine, lastLine.length);
+  if (complete || LIST_ITEM.test(lastLine)) return trimmed;
+
+  // Requiring whitespace after the period already skips decimals
+  const ends = [...lastLine.matchAll(/[.!?]["')\]]?(?=\s)/g)].filter(
+    (end) => !endsWithAbbreviation(lastLine, end.index + 1),
+  );
+  if (ends.length > 0) {
+    const last = ends[ends.length - 1];
+    return trimmed.slice(0, lastBreak + 1 + last.index + last[0].length);
+  }
+  // The whole last line is a fragment; drop it unless it is all there is
+  return lastBreak === -1 ? trimmed : trimmed.slice(0, lastBreak).trimEnd();
+}
+
+const formatAmount = (amount: string) => {
+  const value = Number(amount.replace(/,/g, ""));
+  if (!Number.isFinite(value)) return amount;
+  return `₪${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+};
+
+// "1,000", "1000" or "1,000.50", not swallowing a trailing comma
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?![\d,]\d)`;
+
+// A bare year such as 2030, which is never read as an amount before "NIS"
+const NOT_YEAR = String.raw`(?!(?:19|20)\d\d(?![\d,]|\.\d))`;
+
+const CURRENCY_AMOUNT = new RegExp(
+  String.raw`(?:₪|\b(?:NIS|ILS)\b)[ \u00a0]?${AMOUNT}` +
+    String.raw`|(?<![\w.,])${NOT_YEAR}${AMOUNT}[ \u00a0]?(?:₪|(?:NIS|ILS|(?:new\s+israeli\s+)?shekels?)\b)`,
+  "gi",
+);
+
+// Writes shekel amounts one way: "NIS 1000", "1000 ILS", "1,000 shekels" and
+// "₪ 1000" all become "₪1,000". One pass, so replaced text is never matched
+// again, and only a number right next to the currency counts: "by 2030 NIS 5
+// million" keeps its year.
+export function normalizeCurrency(text: string): string {
+  return text.replace(CURRENCY_AMOUNT, (match, before?: string, after?: string) => formatAmount(before ?? after ?? match));
+}
+
+// Output that is empty, has no words, or is mostly the same few words over
+// and over is reported as a failure rather than shown to the user.
+export function findDegenerateOutput(text: string): string | undefined {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  if (words.length === 0) return "The model returned an empty response.";
+  if (words.length < 3) return "The model's response was too short to be useful.";
+  if (words.length >= 8 && new Set(words).size / words.length < 0.3) {
+    return "The model's response was repetitive and has been discarded.";
+  }
+  return undefined;
+}
+
+// The full pipeline for free-text recommendations
+export function postprocessOutput(output: string, prompt: string): PostprocessResult {
+  let text = stripEcho(output, prompt);
+  text = collapseRepetition(text);
+  text = trimIncompleteSentence(text);
+  text = normalizeCurrency(text).trim();
+  const error = findDegenerateOutput(text);
+  return error ? { ok: false, error, text } : { ok: true, text };
+}
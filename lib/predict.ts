@@ -0,0 +1,216 @@
+import type { ErrorCode } from '@/lib/errors';
+import {
+  generationOptionsSchema,
+  resolveGenerationOptions,
+  type GenerationOptions,
+  type GenerationOptionsInput,
+} from '@/lib/generationOptions';
+import { goalDisplayName, listGoals } from '@/lib/goals';
+import {
+  applyPlanGuardrails,
+  applyTextGuardrails,
+  jurisdictions,
+  type GuardrailContext,
+  type GuardrailReport,
+  type Jurisdiction,
+} from '@/lib/guardrails';
+import type { LLMProvider } from '@/lib/llm';
+import { generatePlan, type InvestmentPlan } from '@/lib/plan';
+import { postprocessOutput } from '@/lib/postprocess';
+import { profileSchema, type FieldErrors, type Profile } from '@/lib/profile';
+import { buildPrompt, type TemplateRef } from '@/lib/prompts';
+import { responseCacheKey } from '@/lib/responseCache';
+
+export type PredictFormat = 'text' | 'plan';
+
+export interface PredictRequest {
+  profile: Profile;
+  format: PredictFormat;
+  // Built on the server from the profile; callers can't send their own
+  prompt: string;
+  // The prompt template that produced `prompt`, echoed in responses
+  template: TemplateRef;
+  // Resolved against the provider's defaults and echoed in responses
+  options: GenerationOptions;
+  // Display names of every goal in the profile, main goal first
+  goals: string[];
+}
+
+// A successful /api/predict response, also the `done` event of the stream
+export interface PredictResponse {
+  result: string;
+  plan?: InvestmentPlan;
+  attempts?: number;
+  provider: string;
+  model: string;
+  template: TemplateRef;
+  prompt: string;
+  options: GenerationOptions;
+  // Compliance findings and the disclaimer to show with the recommendation
+  guardrails: GuardrailReport;
+}
+
+export type PredictOutcome =
+  | { ok: true; response: PredictResponse }
+  | { ok: false; code: ErrorCode; error: string; details?: Record<string, unknown> };
+
+export interface RunPredictionOptions {
+  signal: AbortSignal;
+  // From the request's generation slot (lib/generationLimiter.ts)
+  deadline: number;
+  onToken?: (token: string) => void;
+  // Plans only: called before each repair attempt
+  onRetry?: (attempt: number, issues: string[]) => void;
+}
+
+export interface PredictRequestError {
+  error: string;
+  fieldErrors?: FieldErrors;
+  optionErrors?: Partial<Record<keyof GenerationOptionsInput, string[]>>;
+}
+
+// Validates a /api/predict body of the form { profile, format?, options? }
+// with the same schema the form uses. `options.model` must be one the
+// provider offers.
+export function parsePredictRequest(
+  body: unknown,
+  provider: LLMProvider,
+): { ok: true; request: PredictRequest } | { ok: false; error: PredictRequestError } {
+  const { profile, format = 'text', options = {} } = (body ?? {}) as {
+    profile?: unknown;
+    format?: unknown;
+    options?: unknown;
+  };
+  if (format !== 'text' && format !== 'plan') {
+    return { ok: false, error: { error: 'Format must be "text" or "plan".' } };
+  }
+  const parsed = profileSchema.safeParse(profile);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: { error: 'Invalid investor profile.', fieldErrors: parsed.error.flatten().fieldErrors },
+    };
+  }
+  const parsedOptions = generationOptionsSchema.safeParse(options);
+  if (!parsedOptions.success) {
+    return {
+      ok: false,
+      error: { error: 'Invalid generation options.', optionErrors: parsedOptions.error.flatten().fieldErrors },
+    };
+  }
+  const { model } = parsedOptions.data;
+  if (model !== undefined && !provider.models.includes(model)) {
+    return {
+      ok: false,
+      error: {
+        error: 'Invalid generation options.',
+        optionErrors: { model: [`Unknown model "${model}". Available: ${provider.models.join(', ')}.`] },
+      },
+    };
+  }
+  const { prompt, template } = buildPrompt(parsed.data);
+  return {
+    ok: true,
+    request: {
+      profile: parsed.data,
+      format,
+      prompt,
+      template,
+      options: resolveGenerationOptions(parsedOptions.data, provider.model),
+      goals: listGoals(parsed.data).map(({ goal }) => goalDisplayName(goal)),
+    },
+  };
+}
+
+// Requests that would send the same prompt to the same model with the same
+// settings share a key
+export function predictCacheKey({ prompt, goals, format, template, options }: PredictRequest, provider: LLMProvider): string {
+  const { model, ...params } = options;
+  return responseCacheKey({
+    prompt,
+    template,
+    provider: provider.name,
+    model,
+    // The plan prompt adds an entry per goal
+    params: { format, ...params, ...(format === 'plan' ? { goals } : {}) },
+  });
+}
+
+// GUARDRAIL_JURISDICTION  IL (default) | US | EU; picks the disclaimer
+export function jurisdictionFromEnv(env: NodeJS.ProcessEnv = process.env): Jurisdiction {
+  const jurisdiction = (env.GUARDRAIL_JURISDICTION ?? '').toUpperCase() as Jurisdiction;
+  return jurisdictions.includes(jurisdiction) ? jurisdiction : 'IL';
+}
+
+// Guardrail settings for a request, read from the environment
+export function guardrailContext({ profile }: PredictRequest, env: NodeJS.ProcessEnv = process.env): GuardrailContext {
+  return {
+    riskLevel: profile.riskLevel,
+    jurisdiction: jurisdictionFromEnv(env),
+  };
+}
+
+// Generates the recommendation for a request, cleans it up and applies the
+// guardrails. /api/predict and /api/predict/stream differ only in how they
+// deliver the outcome.
+export async function runPrediction(
+  provider: LLMProvider,
+  request: PredictRequest,
+  { signal, deadline, onToken, onRetry }: RunPredictionOptions,
+): Promise<PredictOutcome> {
+  const { prompt, format, template, options, goals } = request;
+  if (format === 'plan') {
+    const generation = await generatePlan(provider, { prompt, goals, options, signal, deadline, onToken, onRetry });
+    if (!generation.ok) {
+      return {
+        ok: false,
+        code: generation.code,
+        error: generation.error,
+        details: { issues: generation.issues, raw: generation.text },
+      };
+    }
+    const checked = applyPlanGuardrails(generation.plan, guardrailContext(request));
+    if (!checked.ok) {
+      return { ok: false, code: 'GUARDRAIL_REJECTED', error: checked.error, details: { guardrails: checked.report } };
+    }
+    return {
+      ok: true,
+      response: {
+        result: JSON.stringify(checked.value),
+        plan: checked.value,
+        attempts: generation.attempts,
+        provider: generation.provider,
+        model: generation.model,
+        template,
+        prompt,
+        options,
+        guardrails: checked.report,
+      },
+    };
+  }
+
+  const generation = await provider.generate({ prompt, options, signal, deadline, onToken });
+  if (!generation.ok) {
+    return { ok: false, code: generation.code, error: generation.error };
+  }
+  const output = postprocessOutput(generation.text, prompt);
+  if (!output.ok) {
+    return { ok: false, code: 'INVALID_OUTPUT', error: output.error, details: { raw: generation.text } };
+  }
+  const checked = applyTextGuardrails(output.text, guardrailContext(request));
+  if (!checked.ok) {
+    return { ok: false, code: 'GUARDRAIL_REJECTED', error: checked.error, details: { guardrails: checked.report } };
+  }
+  return {
+    ok: true,
+    response: {
+      result: checked.value,
+      provider: generation.provider,
+      model: generation.model,
+      template,
+      prompt,
+      options,
+      guardrails: checked.report,
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import * as z from "zod";
+import { currencies } from "@/lib/currency";
+import { messages, type Messages } from "@/lib/i18n";
+import { riskAssumptions, riskLevels, type RiskLevel } from "@/lib/projection";
+
+export const emergencyFundLevels = ["none", "partial", "full"] as const;
+
+export type EmergencyFundLevel = (typeof emergencyFundLevels)[number];
+
+export const assetClasses = ["cash", "bonds", "equities", "real-estate", "pension", "other"] as const;
+
+export type AssetClass = (typeof assetClasses)[number];
+
+// Holdings that can't be sold to fund the strategy
+const illiquidAssetClasses: readonly AssetClass[] = ["real-estate", "pension"];
+
+export const MAX_DEBTS = 10;
+
+export const goalPriorities = ["high", "medium", "low"] as const;
+
+export type GoalPriority = (typeof goalPriorities)[number];
+
+// Goals besides the main one (`goal`, `timeHorizon`, `targetAmount`)
+export const MAX_ADDITIONAL_GOALS = 4;
+
+// The investor profile collected by UserForm. Shared with the API routes so
+// the server validates exactly what the form does; the form builds it with
+// messages in the user's language.
+export function createProfileSchema(m: Messages["validation"] = messages.en.validation) {
+  return z.object({
+    age: z.coerce.number().min(0, m.age),
+    startingSavings: z.coerce.number().min(0, m.startingSavings).optional(),
+    budget: z.coerce.number().min(0, m.budget),
+    goal: z.string().trim().min(1, m.goalRequired).max(200, m.goalTooLong),
+    riskLevel: z.enum(riskLevels, { required_error: m.riskLevel }),
+    timeHorizon: z.number().min(1, m.timeHorizonMin).max(50, m.timeHorizonMax),
+    targetAmount: z.coerce.number().min(0, m.targetAmount).optional(),
+    // Priority of the main goal when budgeting across several; defaults to high
+    goalPriority: z.enum(goalPriorities).optional(),
+    additionalGoals: z
+      .array(
+        z.object({
+          goal: z.string().trim().min(1, m.goalRequired).max(200, m.goalTooLong),
+          targetAmount: z.coerce.number().min(0, m.targetAmount).optional(),
+          timeHorizon: z.coerce.number().min(1, m.timeHorizonMin).max(50, m.timeHorizonMax),
+          priority: z.enum(goalPriorities),
+        }),
+      )
+      .max(MAX_ADDITIONAL_GOALS, m.tooManyGoals)
+      .optional(),
+    // Left out by older clients and saved history; means ILS
+    currency: z.enum(currencies).optional(),
+    // Extended profile, filled in on the wizard's later steps
+    monthlyIncome: z.coerce.number().min(0, m.monthlyIncome).optional(),
+    debts: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1, m.debtName).max(60, m.debtNameTooLong),
+          balance: z.coerce.number().min(0, m.debtBalance),
+          // Annual interest rate in percent, e.g. 18 for 18%
+          interestRate: z.coerce.number().min(0, m.debtInterestRate).max(100, m.debtInterestRate),
+          monthlyPayment: z.coerce.number().min(0, m.debtMonthlyPayment).optional(),
+        }),
+      )
+      .max(MAX_DEBTS, m.tooManyDebts)
+      .optional(),
+    emergencyFund: z.enum(emergencyFundLevels).optional(),
+    dependents: z.coerce.number().int(m.dependents).min(0, m.dependents).max(20, m.dependents).optional(),
+    holdings: z
+      .array(
+        z.object({
+          assetClass: z.enum(assetClasses),
+          amount: z.coerce.number().min(0, m.holdingAmount),
+        }),
+      )
+      .max(assetClasses.length)
+      .optional(),
+  });
+}
+
+export const profileSchema = createProfileSchema();
+
+export type Profile = z.infer<typeof profileSchema>;
+
+export type Debt = NonNullable<Profile["debts"]>[number];
+
+export type Holding = NonNullable<Profile["holdings"]>[number];
+
+// Starting balance for projections: savings set aside to invest plus
+// holdings that could be put to work
+export function investableBalance({ startingSavings, holdings }: Pick<Profile, "startingSavings" | "holdings">): number {
+  const liquid = (holdings ?? [])
+    .filter((holding) => !illiquidAssetClasses.includes(holding.assetClass))
+    .reduce((sum, holding) => sum + (holding.amount || 0), 0);
+  return (startingSavings || 0) + liquid;
+}
+
+// Debts charging more than the portfolio is expected to earn, highest rate
+// first; paying these down beats investing the same money.
+export function highInterestDebts(debts: Debt[] | undefined, riskLevel: RiskLevel): Debt[] {
+  const expectedReturn = riskAssumptions[riskLevel].expectedReturn * 100;
+  return (debts ?? [])
+    .filter((debt) => debt.balance > 0 && debt.interestRate > expectedReturn)
+    .sort((a, b) => b.interestRate - a.interestRate);
+}
+
+// Field name -> messages, in the shape the form maps onto its FormMessage slots
+export type FieldErrors = Partial<Record<keyof Profile, string[]>>;
+
+export const investmentGoals = [
+  { value: "retirement", label: "Retirement Planning" },
+  { value: "house", label: "Buying a House" },
+  { value: "education", label: "Education Fund" },
+  { value: "wealth", label: "Wealth Building" },
+] as const;
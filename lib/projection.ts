@@ -0,0 +1,89 @@
+export const riskLevels = ["low", "medium", "high"] as const;
+
+export type RiskLevel = (typeof riskLevels)[number];
+
+export interface RiskAssumption {
+  // Expected nominal annual return, e.g. 0.05 for 5%
+  expectedReturn: number;
+  // Annual standard deviation of returns
+  volatility: number;
+}
+
+// Long-run figures for a typical portfolio at each risk level; deliberately
+// conservative since they are shown to users as concrete numbers.
+export const riskAssumptions: Record<RiskLevel, RiskAssumption> = {
+  low: { expectedReturn: 0.03, volatility: 0.05 },
+  medium: { expectedReturn: 0.05, volatility: 0.1 },
+  high: { expectedReturn: 0.07, volatility: 0.16 },
+};
+
+export const DEFAULT_INFLATION_RATE = 0.025;
+
+export interface ProjectionInput {
+  startingSavings?: number;
+  monthlyContribution: number;
+  years: number;
+  riskLevel: RiskLevel;
+  // Used to label each year with the investor's age
+  age?: number;
+  inflationRate?: number;
+  // Overrides the expected return from riskAssumptions
+  expectedReturn?: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  age?: number;
+  // Cumulative amount paid in, including starting savings
+  contributions: number;
+  // Cumulative investment growth on top of contributions
+  growth: number;
+  balance: number;
+  // Balance in today's money
+  realBalance: number;
+}
+
+export interface Projection {
+  expectedReturn: number;
+  inflationRate: number;
+  schedule: ProjectionYear[];
+  final: ProjectionYear;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Projects the balance year by year, compounding monthly with contributions
+// at the end of each month. Year 0 is the starting position.
+export function projectGrowth({
+  startingSavings = 0,
+  monthlyContribution,
+  years,
+  riskLevel,
+  age,
+  inflationRate = DEFAULT_INFLATION_RATE,
+  expectedReturn = riskAssumptions[riskLevel].expectedReturn,
+}: ProjectionInput): Projection {
+  const monthlyRate = Math.pow(1 + expectedReturn, 1 / 12) - 1;
+  let balance = startingSavings;
+  let contributions = startingSavings;
+
+  const row = (year: number): ProjectionYear => ({
+    year,
+    age: age === undefined ? undefined : age + year,
+    contributions: round2(contributions),
+    growth: round2(balance - contributions),
+    balance: round2(balance),
+    realBalance: round2(balance / Math.pow(1 + inflationRate, year)),
+  });
+
+  const schedule = [row(0)];
+  for (let year = 1; year <= years; year++) {
+    for (let month = 0; month < 12; month++) {
+      balance = balance * (1 + monthlyRate) + monthlyContribution;
+      contributions += monthlyContribution;
+    }
+    schedule.push(row(year));
+  }
+
+  return { expectedReturn, inflationRate, schedule, final: schedule[schedule.length - 1] };
+}
@@ -0,0 +1,320 @@
+import { formatPromptAmount } from "@/lib/currency";
+import { allocateBudget } from "@/lib/goals";
+import {
+  highInterestDebts,
+  investmentGoals,
+  type AssetClass,
+  type EmergencyFundLevel,
+  type Profile,
+} from "@/lib/profile";
+import { riskAssumptions } from "@/lib/projection";
+
+// A named, versioned prompt. `slots` lists the profile fields the template
+// reads, and render only receives those, so a template can't silently depend
+// on a field it doesn't declare.
+export interface PromptTemplate<K extends keyof Profile = keyof Profile> {
+  id: string;
+  version: number;
+  description: string;
+  slots: readonly K[];
+  render: (variables: Pick<Profile, K>) => string;
+}
+
+export interface TemplateRef {
+  id: string;
+  version: number;
+}
+
+function defineTemplate<K extends keyof Profile>(template: PromptTemplate<K>): PromptTemplate {
+  return template as unknown as PromptTemplate;
+}
+
+const goalLabel = (goal: string) =>
+  investmentGoals.find((preset) => preset.value === goal)?.label.toLowerCase() ?? goal.toLowerCase();
+
+type BasicsSlot = "age" | "startingSavings" | "budget" | "riskLevel" | "goal" | "timeHorizon" | "targetAmount" | "currency";
+
+// Opening sentences of versions 3 and up, as in version 2 but with amounts in
+// the profile's currency
+function describeBasics({
+  age,
+  startingSavings,
+  budget,
+  riskLevel,
+  goal,
+  timeHorizon,
+  targetAmount,
+  currency,
+}: Pick<Profile, BasicsSlot>): string[] {
+  return [
+    `You are a careful financial planner. Create a ${riskLevel}-risk investment strategy for a ${age}-year-old.`,
+    startingSavings ? `They already have ${formatPromptAmount(startingSavings, currency)} saved to invest.` : "They are starting from zero savings.",
+    `They can invest ${formatPromptAmount(budget, currency)} every month for ${timeHorizon} years.`,
+    `The goal is ${goalLabel(goal)}.`,
+    targetAmount ? `They want to reach ${formatPromptAmount(targetAmount, currency)} by the end of that period.` : "",
+  ];
+}
+
+const emergencyFundSentences: Record<EmergencyFundLevel, string> = {
+  none: "They have no emergency fund.",
+  partial: "Their emergency fund covers less than three months of expenses.",
+  full: "They have an emergency fund covering three or more months of expenses.",
+};
+
+const holdingLabels: Record<AssetClass, string> = {
+  cash: "cash and deposits",
+  bonds: "bonds",
+  equities: "equities",
+  "real-estate": "real estate",
+  pension: "pension funds",
+  other: "other assets",
+};
+
+// The extended profile. Debts that cost more than the portfolio is expected
+// to earn are called out, so the model weighs paying them down first.
+function describeFinances({
+  riskLevel,
+  currency,
+  monthlyIncome,
+  debts,
+  emergencyFund,
+  dependents,
+  holdings,
+}: Pick<Profile, "riskLevel" | "currency" | "monthlyIncome" | "debts" | "emergencyFund" | "dependents" | "holdings">): string[] {
+  const amount = (value: number) => formatPromptAmount(value, currency);
+  const owed = (debts ?? []).filter((debt) => debt.balance > 0);
+  const held = (holdings ?? []).filter((holding) => holding.amount > 0);
+  const costly = highInterestDebts(debts, riskLevel);
+  const expectedReturn = Math.round(riskAssumptions[riskLevel].expectedReturn * 100);
+  return [
+    monthlyIncome ? `Their monthly take-home income is ${amount(monthlyIncome)}.` : "",
+    dependents ? `They support ${dependents} ${dependents === 1 ? "dependent" : "dependents"}.` : "",
+    emergencyFund ? emergencyFundSentences[emergencyFund] : "",
+    owed.length
+      ? `Their debts: ${owed
+          .map(
+            (debt) =>
+              `${debt.name}, ${amount(debt.balance)} at ${debt.interestRate}% interest` +
+              (debt.monthlyPayment ? ` (${amount(debt.monthlyPayment)} a month)` : ""),
+          )
+          .join("; ")}.`
+      : "",
+    costly.length
+      ? `${costly.map((debt) => `${debt.name} (${debt.interestRate}%)`).join(" and ")} ${costly.length === 1 ? "costs" : "cost"} more than the roughly ${expectedReturn}% a ${riskLevel}-risk portfolio is expected to return, so say whether to pay ${costly.length === 1 ? "it" : "them"} down before investing more.`
+      : "",
+    held.length
+      ? `They already hold ${held.map((holding) => `${amount(holding.amount)} in ${holdingLabels[holding.assetClass]}`).join(", ")}.`
+      : "",
+  ];
+}
+
+type GoalsSlot =
+  | "goal"
+  | "timeHorizon"
+  | "targetAmount"
+  | "goalPriority"
+  | "additionalGoals"
+  | "budget"
+  | "riskLevel"
+  | "startingSavings"
+  | "holdings"
+  | "currency";
+
+// With more than one goal, lists each with its share of the budget as
+// allocated by lib/goals.ts and asks for a recommendation per goal
+function describeGoals(variables: Pick<Profile, GoalsSlot>): string[] {
+  if (!variables.additionalGoals?.length) return [];
+  const amount = (value: number) => formatPromptAmount(Math.round(value), variables.currency);
+  const allocations = allocateBudget(variables);
+  return [
+    `They are saving for ${allocations.length} goals at once, with the monthly budget split between them:`,
+    allocations
+      .map(
+        (goal, i) =>
+          `${i + 1}. ${goalLabel(goal.goal)} in ${goal.timeHorizon} years (${goal.priority} priority` +
+          (goal.targetAmount ? `, target ${amount(goal.targetAmount)}` : "") +
+          `): ${amount(goal.monthly)} a month` +
+          (goal.onTrack === false ? ", which is not enough to reach the target" : "") +
+          ".",
+      )
+      .join(" "),
+    "Give a separate recommendation for each goal that suits its time horizon.",
+  ];
+}
+
+// Add a new version rather than editing an existing one, so outputs stay
+// comparable across releases.
+export const promptTemplates: readonly PromptTemplate[] = [
+  defineTemplate({
+    id: "investment-strategy",
+    version: 1,
+    description: "Original one-sentence prompt",
+    slots: ["age", "budget", "riskLevel", "goal", "timeHorizon"],
+    render: ({ age, budget, riskLevel, goal, timeHorizon }) =>
+      `Create a ${riskLevel}-risk investment strategy for a ${age}-year-old investing ₪${budget} monthly for ${timeHorizon} years. The goal is ${goal.toLowerCase()}.`,
+  }),
+  defineTemplate({
+    id: "investment-strategy",
+    version: 2,
+    description: "Adds starting savings, target amount and readable goal names",
+    slots: ["age", "startingSavings", "budget", "riskLevel", "goal", "timeHorizon", "targetAmount"],
+    render: ({ age, startingSavings, budget, riskLevel, goal, timeHorizon, targetAmount }) =>
+      [
+        `You are a careful financial planner. Create a ${riskLevel}-risk investment strategy for a ${age}-year-old.`,
+        startingSavings ? `They already have ₪${startingSavings} saved to invest.` : "They are starting from zero savings.",
+        `They can invest ₪${budget} every month for ${timeHorizon} years.`,
+        `The goal is ${goalLabel(goal)}.`,
+        targetAmount ? `They want to reach ₪${targetAmount} by the end of that period.` : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+  }),
+  defineTemplate({
+    id: "investment-strategy",
+    version: 3,
+    description: "Adds income, debts, emergency fund, dependents and current holdings",
+    slots: [
+      "age",
+      "startingSavings",
+      "budget",
+      "riskLevel",
+      "goal",
+      "timeHorizon",
+      "targetAmount",
+      "currency",
+      "monthlyIncome",
+      "debts",
+      "emergencyFund",
+      "dependents",
+      "holdings",
+    ],
+    render: (variables) =>
+      [
+        ...describeBasics(variables),
+        ...describeFinances(variables),
+        "Base the strategy on their whole financial situation, not only the monthly budget.",
+      ]
+        .filter(Boolean)
+        .join(" "),
+  }),
+  defineTemplate({
+    id: "investment-strategy",
+    version: 4,
+    description: "Adds additional goals and how the budget is split between them; same as version 3 for a single goal",
+    slots: [
+      "age",
+      "startingSavings",
+      "budget",
+      "riskLevel",
+      "goal",
+      "timeHorizon",
+      "targetAmount",
+      "currency",
+      "monthlyIncome",
+      "debts",
+      "emergencyFund",
+      "dependents",
+      "holdings",
+      "goalPriority",
+      "additionalGoals",
+    ],
+    render: (variables) =>
+      [
+        ...describeBasics(variables),
+        ...describeFinances(variables),
+        ...describeGoals(variables),
+        "Base the strategy on their whole financial situation, not only the monthly budget.",
+      ]
+        .filter(Boolean)
+        .join(" "),
+  }),
+];
+
+// Version 4, the multi-goal template. Pin PROMPT_TEMPLATE=investment-strategy@3
+// to keep the prompt from before additional goals.
+export const DEFAULT_TEMPLATE: TemplateRef = { id: "investment-strategy", version: 4 };
+
+export const formatTemplateRef = ({ id, version }: TemplateRef) => `${id}@${version}`;
+
+// Parses "id@version"; a bare id means its latest version
+export function parseTemplateRef(ref: string): TemplateRef | undefined {
+  const [id, version] = ref.trim().split("@");
+  const candidates = promptTemplates.filter((template) => template.id === id);
+  if (candidates.length === 0) return undefined;
+  if (version === undefined) {
+    return { id, version: Math.max(...candidates.map((template) => template.version)) };
+  }
+  const parsed = Number(version);
+  return candidates.some((template) => template.version === parsed) ? { id, version: parsed } : undefined;
+}
+
+export function getTemplate({ id, version }: TemplateRef): PromptTemplate {
+  const template = promptTemplates.find((t) => t.id === id && t.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt template "${formatTemplateRef({ id, version })}".`);
+  }
+  return template;
+}
+
+export interface WeightedTemplate {
+  template: TemplateRef;
+  weight: number;
+}
+
+// Parses an A/B split such as "investment-strategy@1:50,investment-strategy@2:50"
+export function parseTemplateSplit(value: string): WeightedTemplate[] {
+  return value
+    .split(",")
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const [ref, weight = "1"] = entry.split(":");
+      const template = parseTemplateRef(ref);
+      const parsedWeight = Number(weight);
+      if (!template) throw new Error(`Unknown prompt template "${ref.trim()}" in PROMPT_TEMPLATE.`);
+      if (!(parsedWeight >= 0)) throw new Error(`Invalid weight "${weight}" for "${ref.trim()}" in PROMPT_TEMPLATE.`);
+      return { template, weight: parsedWeight };
+    });
+}
+
+// FNV-1a, mapped onto [0, 1)
+function hashToUnit(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+// Picks a template from a weighted split. Keyed on `stickyKey` so the same
+// profile always lands in the same bucket and comparisons stay fair.
+export function selectTemplate(split: WeightedTemplate[], stickyKey: string): TemplateRef {
+  const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+  if (total <= 0) return DEFAULT_TEMPLATE;
+  let point = hashToUnit(stickyKey) * total;
+  for (const entry of split) {
+    if (point < entry.weight) return entry.template;
+    point -= entry.weight;
+  }
+  return split[split.length - 1].template;
+}
+
+// Renders a template with only the profile fields it declares
+export function renderTemplate(ref: TemplateRef, profile: Profile): string {
+  const template = getTemplate(ref);
+  const variables = Object.fromEntries(template.slots.map((slot) => [slot, profile[slot]]));
+  return template.render(variables as Profile);
+}
+
+// Chooses the template for a request from the environment:
+//   PROMPT_TEMPLATE  "id@version" to pin one template, or a weighted split
+//                    like "investment-strategy@1:50,investment-strategy@2:50"
+//                    (default: investment-strategy@4)
+export function buildPrompt(
+  profile: Profile,
+  config: string | undefined = process.env.PROMPT_TEMPLATE,
+): { prompt: string; template: TemplateRef } {
+  const split = config ? parseTemplateSplit(config) : [{ template: DEFAULT_TEMPLATE, weight: 1 }];
+  const template = selectTemplate(split, JSON.stringify(profile));
+  return { prompt: renderTemplate(template, profile), template };
+}
@@ -0,0 +1,423 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { ErrorCode } from '@/lib/errors';
+import { currentRequestId, getLogger, withoutLogContext } from '@/lib/logger';
+
+// A single line sent to generate.py over stdin. `id` is added by the pool.
+export interface WorkerRequest {
+  prompt: string;
+  [key: string]: unknown;
+}
+
+// A single JSON line printed by generate.py to stdout.
+export interface WorkerMessage {
+  id?: string;
+  ready?: boolean;
+  result?: string;
+  error?: string;
+  // Sent with `error`, by generate.py or the pool; one of lib/errors.ts
+  code?: string;
+  // Streamed fragment of the result, sent before the final line
+  token?: string;
+  // Set on a result cut short by a cancel line
+  cancelled?: boolean;
+  [key: string]: unknown;
+}
+
+export interface WorkerRequestOptions {
+  // Called for every streamed token; also asks the worker to stream
+  onToken?: (token: string) => void;
+  // Aborting resolves the request immediately and tells the worker to stop
+  signal?: AbortSignal;
+  // Epoch ms; a request still running then is failed and its worker killed,
+  // since a hung generate.py would otherwise never answer
+  deadline?: number;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  command: string;
+  args: string[];
+  cwd?: string;
+  // Delay before a crashed worker is restarted; doubles on repeated crashes
+  restartDelayMs?: number;
+  maxRestartDelayMs?: number;
+  // How long shutdown() waits for workers to exit before killing them
+  shutdownGraceMs?: number;
+  // How long a worker may take to acknowledge a cancel before it is killed
+  cancelGraceMs?: number;
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  alive: number;
+  ready: number;
+  busy: number;
+  queued: number;
+  restarts: number;
+}
+
+interface Job {
+  id: string;
+  // The API request the job serves, for the logs
+  requestId?: string;
+  payload: WorkerRequest;
+  resolve: (message: WorkerMessage) => void;
+  onToken?: (token: string) => void;
+}
+
+type WorkerState = 'idle' | 'busy' | 'dead';
+
+const CANCELLED: WorkerMessage = { error: 'Generation cancelled.', code: 'GENERATION_CANCELLED' };
+const TIMED_OUT: WorkerMessage = { error: 'Generation timed out.', code: 'GENERATION_TIMEOUT' };
+const SHUT_DOWN: WorkerMessage = { error: 'Python worker pool is shut down.', code: 'MODEL_UNAVAILABLE' };
+
+// stderr lines kept per worker, logged again when it dies
+const STDERR_TAIL_LINES = 20;
+
+const log = () => getLogger().child({ component: 'python-worker' });
+
+// Wraps one long-lived `python generate.py` process. Only one job is in flight
+// per worker, since the script handles stdin lines sequentially.
+class PythonWorker {
+  readonly child: ChildProcessWithoutNullStreams;
+  state: WorkerState = 'idle';
+  ready = false;
+  job: Job | null = null;
+  // Set when the pool kills the worker, e.g. on a timeout
+  private killed = false;
+  // What generate.py reported before exiting, if the model failed to load
+  private loadError?: string;
+  // Last lines generate.py wrote to stderr, e.g. a traceback before a crash
+  private readonly stderrTail: string[] = [];
+  // Kills the worker if a cancelled job never finishes
+  private cancelTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly options: WorkerPoolOptions,
+    private readonly onIdle: (worker: PythonWorker) => void,
+    private readonly onExit: (worker: PythonWorker, failure: WorkerMessage, failedToStart: boolean) => void,
+  ) {
+    this.child = spawn(options.command, options.args, { cwd: options.cwd });
+
+    const lines = createInterface({ input: this.child.stdout });
+    lines.on('line', (line) => this.handleLine(line));
+
+    // Log stderr line by line; reading it also keeps the pipe from filling up
+    createInterface({ input: this.child.stderr }).on('line', (line) => {
+      this.stderrTail.push(line);
+      if (this.stderrTail.length > STDERR_TAIL_LINES) this.stderrTail.shift();
+      log().info(line, { pid: this.child.pid, stream: 'stderr', requestId: this.job?.requestId });
+    });
+    // Writes to a dead worker surface through 'exit'; don't crash the server
+    this.child.stdin.on('error', () => {});
+
+    // Spawning fails when PYTHON_BIN doesn't exist; the model can't be served
+    this.child.on('error', (err) => {
+      this.exit(`Could not start the Python worker (${err.message}).`, 'MODEL_UNAVAILABLE');
+    });
+    // A worker that dies on its own before it is ready most likely couldn't
+    // load the model
+    this.child.on('exit', (code, signal) => {
+      const status = signal ?? `code ${code}`;
+      if (this.ready || this.killed) {
+        this.exit(`Python worker exited unexpectedly (${status}).`, 'GENERATION_FAILED');
+      } else {
+        const reason = this.loadError ?? `Python worker exited while loading the model (${status}).`;
+        this.exit(reason, 'MODEL_UNAVAILABLE');
+      }
+    });
+    log().info('Python worker started', { pid: this.child.pid, command: options.command });
+  }
+
+  send(job: Job) {
+    this.state = 'busy';
+    this.job = job;
+    this.child.stdin.write(JSON.stringify({ ...job.payload, id: job.id }) + '\n');
+  }
+
+  // The worker stays busy until generate.py acknowledges with its final line,
+  // or is killed, and so restarted, if that doesn't come within the grace period
+  cancel(job: Job) {
+    if (this.job !== job) return;
+    job.onToken = undefined;
+    this.child.stdin.write(JSON.stringify({ id: job.id, cancel: true }) + '\n');
+    this.cancelTimer = setTimeout(() => {
+      log().warn('Cancelled generation did not stop; killing its worker', {
+        pid: this.child.pid,
+        requestId: job.requestId,
+      });
+      this.kill('SIGKILL');
+    }, this.options.cancelGraceMs ?? 10000);
+    this.cancelTimer.unref();
+  }
+
+  kill(signal: NodeJS.Signals = 'SIGTERM') {
+    if (this.child.exitCode === null && this.child.signalCode === null) {
+      this.killed = true;
+      this.child.kill(signal);
+    }
+  }
+
+  private handleLine(line: string) {
+    let message: WorkerMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // Libraries occasionally print non-JSON noise to stdout; ignore it
+      return;
+    }
+    if (message.ready) {
+      this.ready = true;
+      return;
+    }
+    // Before its ready line, generate.py only reports a model that failed to
+    // load, then exits; the job in flight is failed on exit
+    if (!this.ready && message.error !== undefined && message.id === undefined) {
+      this.loadError = message.error;
+      return;
+    }
+    // Messages without an id are attributed to the current job
+    if (!this.job || (message.id !== undefined && message.id !== this.job.id)) {
+      return;
+    }
+    if (message.token !== undefined) {
+      this.job.onToken?.(message.token);
+      return;
+    }
+    if (message.result === undefined && message.error === undefined) {
+      return;
+    }
+    // Receiving a response also proves the model has loaded
+    this.ready = true;
+    clearTimeout(this.cancelTimer);
+    const job = this.job;
+    this.job = null;
+    this.state = 'idle';
+    job.resolve(message);
+    this.onIdle(this);
+  }
+
+  private exit(reason: string, code: ErrorCode) {
+    if (this.state === 'dead') return;
+    log().error(reason, {
+      code,
+      pid: this.child.pid,
+      requestId: this.job?.requestId,
+      stderr: this.stderrTail.join('\n'),
+    });
+    const failedToStart = !this.ready && !this.killed;
+    clearTimeout(this.cancelTimer);
+    this.state = 'dead';
+    this.ready = false;
+    this.child.stdin.destroy();
+    const job = this.job;
+    this.job = null;
+    job?.resolve({ id: job.id, error: reason, code });
+    this.onExit(this, { error: reason, code }, failedToStart);
+  }
+}
+
+// Keeps `size` warm Python processes and routes prompts to whichever is free,
+// queueing when all are busy and restarting workers that crash.
+export class PythonWorkerPool {
+  private readonly workers = new Set<PythonWorker>();
+  private readonly queue: Job[] = [];
+  private readonly restartTimers = new Set<NodeJS.Timeout>();
+  private restartDelayMs: number;
+  private restarts = 0;
+  private closed = false;
+  // Why the last worker died before becoming ready, until one succeeds
+  private startupFailure?: WorkerMessage;
+
+  constructor(private readonly options: WorkerPoolOptions) {
+    this.restartDelayMs = options.restartDelayMs ?? 1000;
+    for (let i = 0; i < options.size; i++) {
+      this.spawnWorker();
+    }
+  }
+
+  // Sends a payload to the next free worker and resolves with its response line
+  request(payload: WorkerRequest, options: WorkerRequestOptions = {}): Promise<WorkerMessage> {
+    const { onToken, signal, deadline } = options;
+    if (this.closed) {
+      return Promise.resolve(SHUT_DOWN);
+    }
+    if (signal?.aborted) {
+      return Promise.resolve(CANCELLED);
+    }
+    // Fail fast instead of waiting out the restart delay when workers keep
+    // dying on startup, e.g. with a missing interpreter or model
+    if (this.workers.size === 0 && this.startupFailure) {
+      return Promise.resolve(this.startupFailure);
+    }
+    return new Promise((resolve) => {
+      const onAbort = () => this.cancel(job);
+      const timer = deadline === undefined
+        ? undefined
+        : setTimeout(() => this.expire(job), Math.max(0, deadline - Date.now()));
+      const job: Job = {
+        id: randomUUID(),
+        requestId: currentRequestId(),
+        payload: onToken ? { ...payload, stream: true } : payload,
+        onToken,
+        resolve: (message) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(message);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  stats(): WorkerPoolStats {
+    const workers = [...this.workers];
+    return {
+      size: this.options.size,
+      alive: workers.length,
+      ready: workers.filter((w) => w.ready).length,
+      busy: workers.filter((w) => w.state === 'busy').length,
+      queued: this.queue.length,
+      restarts: this.restarts,
+    };
+  }
+
+  // Closes stdin so each worker finishes its current line and exits on EOF,
+  // then kills whatever is still running after the grace period.
+  async shutdown(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const timer of this.restartTimers) clearTimeout(timer);
+    this.restartTimers.clear();
+    for (const job of this.queue.splice(0)) {
+      job.resolve({ ...SHUT_DOWN, id: job.id });
+    }
+
+    const workers = [...this.workers];
+    const exited = workers.map(
+      (worker) => new Promise<void>((resolve) => {
+        if (worker.state === 'dead') return resolve();
+        worker.child.once('exit', () => resolve());
+        worker.child.stdin.end();
+      }),
+    );
+    const grace = new Promise<void>((resolve) => {
+      setTimeout(resolve, this.options.shutdownGraceMs ?? 5000).unref();
+    });
+    await Promise.race([Promise.all(exited), grace]);
+    this.killAll();
+  }
+
+  // Synchronous last resort, safe to call from a process 'exit' handler
+  killAll() {
+    this.closed = true;
+    for (const worker of this.workers) worker.kill('SIGKILL');
+  }
+
+  private cancel(job: Job) {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      for (const worker of this.workers) worker.cancel(job);
+    }
+    job.resolve({ ...CANCELLED, id: job.id });
+  }
+
+  private expire(job: Job) {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    }
+    log().warn('Generation timed out; killing its worker', { requestId: job.requestId, queued: queued !== -1 });
+    // Resolve before killing so the caller sees the timeout, not the crash
+    job.resolve({ ...TIMED_OUT, id: job.id });
+    for (const worker of this.workers) {
+      if (worker.job === job) worker.kill('SIGKILL');
+    }
+  }
+
+  // Workers outlive the request that happens to start them, so they must not
+  // inherit its log context
+  private spawnWorker() {
+    const worker = withoutLogContext(
+      () =>
+        new PythonWorker(
+          this.options,
+          () => {
+            // A successful round trip means the worker is healthy again
+            this.restartDelayMs = this.options.restartDelayMs ?? 1000;
+            this.startupFailure = undefined;
+            this.dispatch();
+          },
+          (dead, failure, failedToStart) => this.handleExit(dead, failure, failedToStart),
+        ),
+    );
+    this.workers.add(worker);
+  }
+
+  private handleExit(worker: PythonWorker, failure: WorkerMessage, failedToStart: boolean) {
+    this.workers.delete(worker);
+    if (this.closed) return;
+    this.startupFailure = failedToStart ? failure : undefined;
+
+    log().warn('Restarting Python worker', { delayMs: this.restartDelayMs });
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(timer);
+      if (this.closed) return;
+      this.restarts++;
+      this.spawnWorker();
+      this.dispatch();
+    }, this.restartDelayMs);
+    timer.unref();
+    this.restartTimers.add(timer);
+    this.restartDelayMs = Math.min(this.restartDelayMs * 2, this.options.maxRestartDelayMs ?? 30000);
+  }
+
+  private dispatch() {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (worker.state === 'idle') {
+        worker.send(this.queue.shift()!);
+      }
+    }
+  }
+}
+
+// Reads pool configuration from the environment:
+//   PYTHON_BIN      interpreter to run generate.py with (default: python)
+//   PYTHON_WORKERS  number of warm worker processes (default: 1)
+//   PYTHON_SCRIPT   script to run instead of generate.py, e.g. the model-free
+//                   tests/mockGenerate.mjs with PYTHON_BIN=node
+export function poolOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): WorkerPoolOptions {
+  const size = Number.parseInt(env.PYTHON_WORKERS ?? '', 10);
+  return {
+    size: Number.isFinite(size) && size > 0 ? size : 1,
+    command: env.PYTHON_BIN || 'python',
+    args: [path.resolve(process.cwd(), env.PYTHON_SCRIPT || 'generate.py')],
+    cwd: process.cwd(),
+  };
+}
+
+// Kept on globalThis so hot reloads in `next dev` reuse the warm workers
+// instead of leaking a new set of processes on every edit.
+const globalForPool = globalThis as unknown as { pythonWorkerPool?: PythonWorkerPool };
+
+// The pool if something has started it, without starting it, e.g. for metrics
+export function existingPythonWorkerPool(): PythonWorkerPool | undefined {
+  return globalForPool.pythonWorkerPool;
+}
+
+export function getPythonWorkerPool(): PythonWorkerPool {
+  if (!globalForPool.pythonWorkerPool) {
+    const pool = new PythonWorkerPool(poolOptionsFromEnv());
+    globalForPool.pythonWorkerPool = pool;
+    process.once('exit', () => pool.killAll());
+  }
+  return globalForPool.pythonWorkerPool;
+}
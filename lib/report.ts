@@ -0,0 +1,257 @@
+import * as z from "zod";
+import { DEFAULT_CURRENCY, type Currency } from "@/lib/currency";
+import { allocateBudget, goalDisplayName } from "@/lib/goals";
+import { historyEntryInputSchema } from "@/lib/history";
+import { messages } from "@/lib/i18n";
+import { investableBalance } from "@/lib/profile";
+import { projectGrowth, type Projection } from "@/lib/projection";
+
+// Downloadable reports of a recommendation. The route builds them from one
+// Report, so the PDF, Markdown and CSV always agree. Reports are in English,
+// though what the user typed, such as a custom goal, may be in Hebrew.
+
+export const exportFormats = ["pdf", "md", "csv"] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  md: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+// A recommendation as the form holds it, i.e. a history entry without the
+// bookkeeping fields
+export const reportInputSchema = historyEntryInputSchema
+  .omit({ name: true, prompt: true, provider: true })
+  .extend({ model: z.string().optional() });
+
+export type ReportInput = z.infer<typeof reportInputSchema>;
+
+export interface ReportRow {
+  label: string;
+  value: string;
+}
+
+export interface ReportGoal {
+  goal: string;
+  detail: string;
+  recommendation?: string;
+}
+
+export interface Report {
+  title: string;
+  generatedAt: Date;
+  currency: Currency;
+  inputs: ReportRow[];
+  // The structured plan when there is one, otherwise the free-text result
+  plan: ReportInput["plan"];
+  text: string;
+  goals: ReportGoal[];
+  projection: Projection;
+  disclaimer: string;
+  generatedBy?: string;
+}
+
+const en = messages.en;
+
+// Amounts with the ISO code, which reads the same in every format
+export function reportAmount(value: number, currency: Currency = DEFAULT_CURRENCY): string {
+  return `${currency} ${Math.round(value).toLocaleString("en-US")}`;
+}
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+function describeInputs(profile: ReportInput["profile"]): ReportRow[] {
+  const amount = (value: number) => reportAmount(value, profile.currency);
+  const owed = (profile.debts ?? []).filter((debt) => debt.balance > 0);
+  const held = (profile.holdings ?? []).filter((holding) => holding.amount > 0);
+  const rows: (ReportRow | false)[] = [
+    { label: "Age", value: String(profile.age) },
+    { label: "Currency", value: profile.currency ?? DEFAULT_CURRENCY },
+    { label: "Starting savings", value: amount(profile.startingSavings ?? 0) },
+    { label: "Monthly budget", value: amount(profile.budget) },
+    { label: "Goal", value: goalDisplayName(profile.goal) },
+    { label: "Time horizon", value: `${profile.timeHorizon} years` },
+    !!profile.targetAmount && { label: "Target amount", value: amount(profile.targetAmount) },
+    { label: "Risk level", value: en.riskLevels[profile.riskLevel] },
+    !!profile.monthlyIncome && { label: "Monthly income", value: amount(profile.monthlyIncome) },
+    owed.length > 0 && {
+      label: "Debts",
+      value: owed.map((debt) => `${debt.name}: ${amount(debt.balance)} at ${debt.interestRate}%`).join("; "),
+    },
+    !!profile.emergencyFund && { label: "Emergency fund", value: en.emergencyFundLevels[profile.emergencyFund] },
+    profile.dependents !== undefined && { label: "Dependents", value: String(profile.dependents) },
+    held.length > 0 && {
+      label: "Holdings",
+      value: held.map((holding) => `${en.assetClasses[holding.assetClass]}: ${amount(holding.amount)}`).join("; "),
+    },
+  ];
+  return rows.filter((row): row is ReportRow => row !== false);
+}
+
+// Each goal's share of the budget, with the plan's advice for it. Empty for a
+// single goal, which the rest of the report already covers.
+function describeGoals({ profile, plan }: ReportInput): ReportGoal[] {
+  if (!profile.additionalGoals?.length) return [];
+  const amount = (value: number) => reportAmount(value, profile.currency);
+  return allocateBudget(profile).map((goal, i) => ({
+    goal: goalDisplayName(goal.goal),
+    detail:
+      `${goal.timeHorizon} years, ${goal.priority} priority: ${amount(goal.monthly)}/month, ` +
+      `projected ${amount(goal.final.balance)}` +
+      (goal.targetAmount === undefined
+        ? ""
+        : ` of ${amount(goal.targetAmount)} (${goal.onTrack ? "on track" : "short of target"})`),
+    recommendation: plan?.goals?.[i]?.recommendation,
+  }));
+}
+
+// Everything a report shows. `disclaimer` is used when the recommendation
+// carries no guardrail report of its own.
+export function buildReport(input: ReportInput, disclaimer: string, generatedAt = new Date()): Report {
+  const { profile } = input;
+  return {
+    title: `Investment recommendation: ${goalDisplayName(profile.goal)}`,
+    generatedAt,
+    currency: profile.currency ?? DEFAULT_CURRENCY,
+    inputs: describeInputs(profile),
+    plan: input.plan,
+    text: input.result,
+    goals: describeGoals(input),
+    projection: projectGrowth({
+      age: profile.age,
+      startingSavings: investableBalance(profile),
+      monthlyContribution: profile.budget,
+      years: profile.timeHorizon,
+      riskLevel: profile.riskLevel,
+    }),
+    disclaimer: input.guardrails?.disclaimer ?? disclaimer,
+    generatedBy: input.model
+      ? input.template
+        ? `${input.model}, prompt ${input.template.id} v${input.template.version}`
+        : input.model
+      : undefined,
+  };
+}
+
+// File name for a download, e.g. "investgpt-house-2026-10-19.pdf"
+export function reportFilename(report: Report, format: ExportFormat): string {
+  const slug = report.title
+    .slice(report.title.indexOf(":") + 1)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const date = report.generatedAt.toISOString().slice(0, 10);
+  return `investgpt-${slug ? `${slug}-` : ""}${date}.${format}`;
+}
+
+export function projectionColumns(report: Report): string[] {
+  return ["Year", "Age", "Contributions", "Growth", "Balance", "Balance in today's money"].map((column, i) =>
+    i >= 2 ? `${column} (${report.currency})` : column,
+  );
+}
+
+export function projectionAssumptions({ projection }: Report): string {
+  return `Assumes ${percent(projection.expectedReturn)} a year expected return and ${percent(projection.inflationRate)} inflation, compounded monthly.`;
+}
+
+const escapeCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n+/g, " ");
+
+function markdownTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.map(escapeCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ];
+}
+
+export function renderMarkdown(report: Report): string {
+  const { plan } = report;
+  const amount = (value: number) => Math.round(value).toLocaleString("en-US");
+  const lines = [
+    `# ${report.title}`,
+    "",
+    `Generated ${report.generatedAt.toISOString().slice(0, 10)}${report.generatedBy ? ` by ${report.generatedBy}` : ""}.`,
+    "",
+    "## Your inputs",
+    "",
+    ...markdownTable(
+      ["Input", "Value"],
+      report.inputs.map((row) => [row.label, row.value]),
+    ),
+    "",
+    "## Recommendation",
+    "",
+  ];
+  if (plan) {
+    lines.push(
+      plan.summary,
+      "",
+      ...markdownTable(
+        ["Asset class", "Allocation", "Instruments"],
+        plan.allocations.map((a) => [a.assetClass, `${a.percentage}%`, a.instruments.join(", ")]),
+      ),
+      "",
+      `Rebalance ${plan.rebalancing}.`,
+      "",
+      plan.rationale,
+    );
+    if (plan.warnings.length) lines.push("", "### Warnings", "", ...plan.warnings.map((warning) => `- ${warning}`));
+  } else {
+    lines.push(report.text);
+  }
+  if (report.goals.length) {
+    lines.push("", "## Goals", "");
+    for (const goal of report.goals) {
+      lines.push(`- **${goal.goal}**: ${goal.detail}.${goal.recommendation ? ` ${goal.recommendation}` : ""}`);
+    }
+  }
+  lines.push(
+    "",
+    "## Projection",
+    "",
+    projectionAssumptions(report),
+    "",
+    ...markdownTable(
+      projectionColumns(report),
+      report.projection.schedule.map((row) => [
+        String(row.year),
+        row.age === undefined ? "" : String(row.age),
+        amount(row.contributions),
+        amount(row.growth),
+        amount(row.balance),
+        amount(row.realBalance),
+      ]),
+    ),
+    "",
+    "---",
+    "",
+    `_${report.disclaimer}_`,
+    "",
+  );
+  return lines.join("\n");
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The year-by-year projection, one row per year
+export function renderCsv(report: Report): string {
+  return [
+    projectionColumns(report),
+    ...report.projection.schedule.map((row) => [
+      row.year,
+      row.age,
+      row.contributions,
+      row.growth,
+      row.balance,
+      row.realBalance,
+    ]),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n")
+    .concat("\n");
+}
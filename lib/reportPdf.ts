@@ -0,0 +1,166 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { projectionAssumptions, projectionColumns, type Report } from '@/lib/report';
+
+const BODY_SIZE = 10;
+const SMALL_SIZE = 8;
+
+// DejaVu Sans covers Hebrew (custom goals, debt names) and ₪, which the
+// standard PDF fonts lack; pdfkit would draw those as garbage without an
+// error. Read from node_modules at runtime, like pdfkit's own font data.
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+export const PDF_FONTS = {
+  regular: path.join(FONT_DIR, 'DejaVuSans.ttf'),
+  bold: path.join(FONT_DIR, 'DejaVuSans-Bold.ttf'),
+};
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const amount = (value: number) => Math.round(value).toLocaleString('en-US');
+
+const RTL_CHAR = /[\u0590-\u05ff\ufb1d-\ufb4f]/;
+// A run of Hebrew, including the spaces and punctuation between its words
+const RTL_RUN = /([\u0590-\u05ff\ufb1d-\ufb4f](?:[^\p{L}\p{N}]*[\u0590-\u05ff\ufb1d-\ufb4f])*)/u;
+
+const reverse = (text: string) => [...text].reverse().join('');
+const startsRtl = (text: string) => RTL_CHAR.test(text.match(/\p{L}/u)?.[0] ?? '');
+
+// pdfkit draws a line left to right, so one with Hebrew is put in the order
+// its characters appear on the page: Hebrew runs are reversed, and in a line
+// that starts in Hebrew so is the order of the runs, with the spaces and
+// punctuation around each Latin run swapping sides. fontkit then reverses any
+// line whose first letter is Hebrew once more, which is undone up front.
+export function drawOrder(line: string): string {
+  if (!RTL_CHAR.test(line)) return line;
+  const rtl = startsRtl(line);
+  const runs = line.split(RTL_RUN).map((run) => {
+    if (RTL_CHAR.test(run)) return reverse(run);
+    if (!rtl) return run;
+    const [, before, text, after] = run.match(/^([^\p{L}\p{N}]*)([^]*?)([^\p{L}\p{N}]*)$/u)!;
+    return reverse(after) + text + reverse(before);
+  });
+  const visual = (rtl ? runs.reverse() : runs).join('');
+  return startsRtl(visual) ? reverse(visual) : visual;
+}
+
+// Greedy word wrap to `width`, as pdfkit would do it
+function wrap(doc: Doc, text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && doc.widthOfString(candidate) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// doc.text for text that may contain Hebrew: wrapped here, so each line can
+// be put in drawing order, and right-aligned when it starts in Hebrew
+function write(doc: Doc, text: string) {
+  if (!RTL_CHAR.test(text)) return doc.text(text);
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const align = startsRtl(text) ? 'right' : 'left';
+  for (const line of wrap(doc, text, width)) doc.text(drawOrder(line), { align });
+  return doc;
+}
+
+function heading(doc: Doc, text: string) {
+  doc.moveDown().font('Bold').fontSize(13).text(text).moveDown(0.4).font('Regular').fontSize(BODY_SIZE);
+}
+
+// A table whose first row is bold, starting at the left margin
+function table(doc: Doc, header: string[], rows: string[][], fontSize = BODY_SIZE) {
+  doc.x = doc.page.margins.left;
+  doc.fontSize(fontSize).table({
+    data: [header.map((text) => ({ text, font: { src: 'Bold' } })), ...rows.map((row) => row.map(drawOrder))],
+    defaultStyle: { padding: 3, border: 0.5, borderColor: '#bbbbbb' },
+  });
+  doc.fontSize(BODY_SIZE);
+}
+
+// Renders a report as a printable A4 PDF with DejaVu Sans embedded
+export function renderPdf(report: Report): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: 50, font: PDF_FONTS.regular, info: { Title: report.title } });
+  doc.registerFont('Regular', PDF_FONTS.regular);
+  doc.registerFont('Bold', PDF_FONTS.bold);
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  write(doc.font('Bold').fontSize(18), report.title);
+  doc
+    .font('Regular')
+    .fontSize(SMALL_SIZE)
+    .fillColor('#666666')
+    .text(
+      `Generated ${report.generatedAt.toISOString().slice(0, 10)}${report.generatedBy ? ` by ${report.generatedBy}` : ''}`,
+    )
+    .fillColor('black')
+    .fontSize(BODY_SIZE);
+
+  heading(doc, 'Your inputs');
+  table(
+    doc,
+    ['Input', 'Value'],
+    report.inputs.map((row) => [row.label, row.value]),
+  );
+
+  heading(doc, 'Recommendation');
+  const { plan } = report;
+  if (plan) {
+    write(doc, plan.summary).moveDown(0.5);
+    table(
+      doc,
+      ['Asset class', 'Allocation', 'Instruments'],
+      plan.allocations.map((a) => [a.assetClass, `${a.percentage}%`, a.instruments.join(', ')]),
+    );
+    doc.moveDown(0.5).text(`Rebalance ${plan.rebalancing}.`).moveDown(0.5);
+    write(doc, plan.rationale);
+    if (plan.warnings.length) {
+      doc.moveDown(0.5).font('Bold').text('Warnings').font('Regular');
+      doc.list(plan.warnings.map(drawOrder), { bulletRadius: 1.5 });
+    }
+  } else {
+    write(doc, report.text);
+  }
+
+  if (report.goals.length) {
+    heading(doc, 'Goals');
+    for (const goal of report.goals) {
+      write(doc.font('Bold'), goal.goal).font('Regular').text(goal.detail);
+      if (goal.recommendation) write(doc, goal.recommendation);
+      doc.moveDown(0.5);
+    }
+  }
+
+  heading(doc, 'Projection');
+  doc.fontSize(SMALL_SIZE).text(projectionAssumptions(report)).moveDown(0.5);
+  table(
+    doc,
+    projectionColumns(report),
+    report.projection.schedule.map((row) => [
+      String(row.year),
+      row.age === undefined ? '' : String(row.age),
+      amount(row.contributions),
+      amount(row.growth),
+      amount(row.balance),
+      amount(row.realBalance),
+    ]),
+    SMALL_SIZE,
+  );
+
+  doc.moveDown().fontSize(SMALL_SIZE).fillColor('#666666').text(report.disclaimer, doc.page.margins.left);
+  doc.end();
+  return done;
+}
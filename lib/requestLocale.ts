@@ -0,0 +1,8 @@
+import { cookies } from 'next/headers';
+import { LOCALE_COOKIE, resolveLocale, type Locale } from '@/lib/i18n';
+
+// The UI language for the current request, from the cookie the language
+// toggle sets. Server components only.
+export async function getRequestLocale(): Promise<Locale> {
+  return resolveLocale((await cookies()).get(LOCALE_COOKIE)?.value);
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { TemplateRef } from '@/lib/prompts';
+
+export interface ResponseCacheOptions {
+  // Entries kept in memory; the least recently used is evicted beyond this
+  maxEntries: number;
+  ttlMs: number;
+  // When set, entries are also written here and survive restarts
+  dir?: string;
+}
+
+interface CacheRecord<T> {
+  expiresAt: number;
+  value: T;
+}
+
+// Content-addressed cache of generation responses: an in-memory LRU, backed
+// by one JSON file per key when `dir` is set. Disk errors are treated as
+// misses, so a read-only or full disk only costs a regeneration.
+export class ResponseCache<T> {
+  private readonly entries = new Map<string, CacheRecord<T>>();
+
+  constructor(readonly options: ResponseCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.maxEntries > 0;
+  }
+
+  async get(key: string, now = Date.now()): Promise<T | undefined> {
+    if (!this.enabled) return undefined;
+    let record = this.entries.get(key);
+    if (!record && this.options.dir) {
+      record = await this.readRecord(key);
+    }
+    if (!record) return undefined;
+    if (record.expiresAt <= now) {
+      await this.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    this.evict();
+    return record.value;
+  }
+
+  async set(key: string, value: T, now = Date.now()): Promise<void> {
+    if (!this.enabled) return;
+    const record = { expiresAt: now + this.options.ttlMs, value };
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    this.evict();
+    if (!this.options.dir) return;
+    try {
+      await mkdir(this.options.dir, { recursive: true });
+      const file = this.fileFor(key);
+      const temp = `${file}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(record));
+      await rename(temp, file);
+    } catch {
+      // Still cached in memory
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    if (this.options.dir) {
+      await rm(this.fileFor(key), { force: true }).catch(() => undefined);
+    }
+  }
+
+  stats() {
+    return { entries: this.entries.size, maxEntries: this.options.maxEntries };
+  }
+
+  private fileFor(key: string) {
+    return path.join(this.options.dir!, `${key}.json`);
+  }
+
+  private async readRecord(key: string): Promise<CacheRecord<T> | undefined> {
+    try {
+      return JSON.parse(await readFile(this.fileFor(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private evict() {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export interface CacheKeyParts {
+  // The rendered prompt, so profiles share an entry exactly when the model
+  // would be asked the same thing
+  prompt: string;
+  template: TemplateRef;
+  provider: string;
+  model: string;
+  // Anything else that changes the output, e.g. the response format
+  params: Record<string, unknown>;
+}
+
+export function responseCacheKey({ prompt, template, provider, model, params }: CacheKeyParts): string {
+  const sortedParams = Object.fromEntries(Object.keys(params).sort().map((key) => [key, params[key]]));
+  const content = JSON.stringify({
+    prompt,
+    template: `${template.id}@${template.version}`,
+    provider,
+    model,
+    params: sortedParams,
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// How a request wants the cache used:
+//   default  serve a cached response, or generate and cache one
+//   bypass   neither read nor write the cache (?cache=bypass, or Cache-Control: no-cache)
+//   purge    drop this request's entry, then generate and cache a fresh one (?cache=purge)
+export type CacheMode = 'default' | 'bypass' | 'purge';
+
+export function cacheModeFromRequest(req: Request): CacheMode {
+  const param = new URL(req.url).searchParams.get('cache');
+  if (param === 'bypass' || param === 'purge') return param;
+  return /\bno-(cache|store)\b/.test(req.headers.get('cache-control') ?? '') ? 'bypass' : 'default';
+}
+
+// Response cache settings, read from the environment:
+//   RESPONSE_CACHE_SIZE         entries kept in memory; 0 disables the cache (default: 100)
+//   RESPONSE_CACHE_TTL_SECONDS  how long an entry is served (default: 3600)
+//   RESPONSE_CACHE_DIR          directory to persist entries in (default: memory only)
+export function responseCacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ResponseCacheOptions {
+  const size = Number.parseInt(env.RESPONSE_CACHE_SIZE ?? '', 10);
+  const ttl = Number(env.RESPONSE_CACHE_TTL_SECONDS);
+  return {
+    maxEntries: Number.isFinite(size) && size >= 0 ? size : 100,
+    ttlMs: (Number.isFinite(ttl) && ttl > 0 ? ttl : 3600) * 1000,
+    dir: env.RESPONSE_CACHE_DIR ? path.resolve(env.RESPONSE_CACHE_DIR) : undefined,
+  };
+}
+
+const globalForCache = globalThis as unknown as { responseCache?: ResponseCache<unknown> };
+
+export function getResponseCache<T>(): ResponseCache<T> {
+  if (!globalForCache.responseCache) {
+    globalForCache.responseCache = new ResponseCache(responseCacheOptionsFromEnv());
+  }
+  return globalForCache.responseCache as ResponseCache<T>;
+}
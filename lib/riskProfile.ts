@@ -0,0 +1,103 @@
+import { riskLevels, type RiskLevel } from "@/lib/projection";
+
+// Risk-tolerance questionnaire. Each answer scores 0-3 points, weighted by how
+// much it says about the investor; the time horizon always counts, so an
+// unanswered questionnaire falls back to the horizon rule alone.
+
+export const riskQuestions = {
+  lossReaction: ["sell-all", "sell-some", "hold", "buy-more"],
+  incomeStability: ["unstable", "variable", "stable", "very-stable"],
+  experience: ["none", "basic", "experienced", "advanced"],
+} as const;
+
+export type RiskQuestionId = keyof typeof riskQuestions;
+
+export type RiskAnswers = { [Q in RiskQuestionId]?: (typeof riskQuestions)[Q][number] };
+
+export type RiskFactorId = RiskQuestionId | "horizon";
+
+const weights: Record<RiskFactorId, number> = {
+  lossReaction: 2,
+  incomeStability: 1,
+  experience: 1,
+  horizon: 2,
+};
+
+const MAX_POINTS = 3;
+
+export interface RiskFactor {
+  id: RiskFactorId;
+  // The chosen answer; for the horizon, the number of years
+  answer: string | number;
+  // Weighted, out of maxPoints
+  points: number;
+  maxPoints: number;
+}
+
+export interface RiskAssessment {
+  // 0-100, higher means more tolerance for risk
+  score: number;
+  // What the answers alone suggest
+  toleranceLevel: RiskLevel;
+  // What the horizon rule alone suggests
+  horizonLevel: RiskLevel;
+  // The lower of the two: a short horizon limits risk however tolerant the investor
+  level: RiskLevel;
+  cappedByHorizon: boolean;
+  factors: RiskFactor[];
+}
+
+// The original rule: short horizons can't ride out a downturn
+export function getRecommendedRiskLevel(timeHorizon: number): RiskLevel {
+  if (timeHorizon <= 3) return "low";
+  if (timeHorizon <= 7) return "medium";
+  return "high";
+}
+
+export function riskLevelForScore(score: number): RiskLevel {
+  if (score < 40) return "low";
+  if (score < 70) return "medium";
+  return "high";
+}
+
+function horizonPoints(timeHorizon: number): number {
+  if (timeHorizon <= 3) return 0;
+  if (timeHorizon <= 7) return 1;
+  if (timeHorizon <= 15) return 2;
+  return 3;
+}
+
+// Scores the answered questions plus the horizon. With no answers the
+// result is exactly the horizon rule.
+export function assessRisk(answers: RiskAnswers, timeHorizon: number): RiskAssessment {
+  const factors: RiskFactor[] = [];
+  for (const id of Object.keys(riskQuestions) as RiskQuestionId[]) {
+    const answer = answers[id];
+    if (answer === undefined) continue;
+    const options: readonly string[] = riskQuestions[id];
+    factors.push({ id, answer, points: options.indexOf(answer) * weights[id], maxPoints: MAX_POINTS * weights[id] });
+  }
+  const answered = factors.length > 0;
+  factors.push({
+    id: "horizon",
+    answer: timeHorizon,
+    points: horizonPoints(timeHorizon) * weights.horizon,
+    maxPoints: MAX_POINTS * weights.horizon,
+  });
+
+  const total = factors.reduce((sum, f) => sum + f.points, 0);
+  const max = factors.reduce((sum, f) => sum + f.maxPoints, 0);
+  const score = Math.round((total / max) * 100);
+  const horizonLevel = getRecommendedRiskLevel(timeHorizon);
+  const toleranceLevel = answered ? riskLevelForScore(score) : horizonLevel;
+  const level = riskLevels[Math.min(riskLevels.indexOf(toleranceLevel), riskLevels.indexOf(horizonLevel))];
+
+  return {
+    score,
+    toleranceLevel,
+    horizonLevel,
+    level,
+    cappedByHorizon: level !== toleranceLevel,
+    factors,
+  };
+}
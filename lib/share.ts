@@ -0,0 +1,96 @@
+import * as z from "zod";
+import { profileSchema } from "@/lib/profile";
+import { reportInputSchema } from "@/lib/report";
+import { riskQuestions } from "@/lib/riskProfile";
+
+// Form state in a link. The state is JSON, deflated and base64url-encoded
+// behind a version prefix ("1.eNq…"), and travels in the URL hash so it
+// never reaches the server. Links that carry a recommendation get long, so
+// they can also be saved under a short id (see lib/shareStore.ts).
+
+export const SHARE_VERSION = 1;
+
+// The hash parameter holding the token, as in `#s=1.eNq…`
+export const SHARE_HASH_PARAM = "s";
+
+// Longest token the short-link store accepts
+export const MAX_SHARE_TOKEN_LENGTH = 64_000;
+
+export const shareTokenSchema = z
+  .string()
+  .max(MAX_SHARE_TOKEN_LENGTH, "Share token is too long")
+  .regex(/^\d+\.[\w-]+$/, "Invalid share token");
+
+const riskAnswersSchema = z.object({
+  lossReaction: z.enum(riskQuestions.lossReaction).optional(),
+  incomeStability: z.enum(riskQuestions.incomeStability).optional(),
+  experience: z.enum(riskQuestions.experience).optional(),
+});
+
+export const shareStateSchema = z.object({
+  profile: profileSchema,
+  // Whether the goal was typed in rather than picked from the presets
+  customGoal: z.boolean(),
+  // Whether the risk level was picked by hand instead of suggested
+  riskOverride: z.boolean(),
+  riskAnswers: riskAnswersSchema.optional(),
+  // Shown as is when the link is opened, instead of generating again
+  recommendation: reportInputSchema.omit({ profile: true }).optional(),
+});
+
+export type ShareState = z.infer<typeof shareStateSchema>;
+
+// Drops empty strings, arrays and objects, so unused fields cost nothing
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(compact);
+  if (value === null || typeof value !== "object") return value;
+  const entries = Object.entries(value)
+    .map(([key, v]) => [key, compact(v)] as const)
+    .filter(([, v]) => v !== undefined && v !== "" && !(Array.isArray(v) && v.length === 0));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const body = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function encodeShareState(state: ShareState): Promise<string> {
+  const json = JSON.stringify(compact(state));
+  const deflated = await transform(new TextEncoder().encode(json), new CompressionStream("deflate-raw"));
+  return `${SHARE_VERSION}.${toBase64Url(deflated)}`;
+}
+
+// Undefined for anything that isn't a valid token of a known version
+export async function decodeShareState(token: string): Promise<ShareState | undefined> {
+  const [version, payload] = token.split(".", 2);
+  if (Number(version) !== SHARE_VERSION || !payload) return undefined;
+  try {
+    const json = await transform(fromBase64Url(payload), new DecompressionStream("deflate-raw"));
+    const parsed = shareStateSchema.safeParse(JSON.parse(new TextDecoder().decode(json)));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Link that restores `token` when opened, e.g. https://host/#s=1.eNq…
+export function shareUrl(origin: string, token: string): string {
+  return `${origin}/#${SHARE_HASH_PARAM}=${token}`;
+}
+
+// Short link for a stored state, e.g. https://host/s/Ab3dE6gH
+export function shortShareUrl(origin: string, id: string): string {
+  return `${origin}/s/${id}`;
+}
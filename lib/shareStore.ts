@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Oldest links stop working beyond this, so the directory stays bounded
+const MAX_LINKS = 1000;
+
+// Ids are a prefix of the token's hash, lengthened only on a collision
+const ID_LENGTH = 10;
+
+export interface SharedLink {
+  id: string;
+  // An encoded share state (see lib/share.ts)
+  token: string;
+  createdAt: string;
+}
+
+// Short links for shared scenarios, one JSON file per link in a directory on
+// the server, so creating a link writes only that link. An id is derived from
+// its token, which makes sharing the same state twice return the same link
+// without an index. Writes are serialized and atomic (temp file + rename).
+export class ShareStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  async get(id: string): Promise<SharedLink | undefined> {
+    if (!/^[\w-]{1,64}$/.test(id)) return undefined;
+    await this.queue;
+    return this.read(id);
+  }
+
+  // Sharing the same state twice returns the existing link
+  create(token: string): Promise<SharedLink> {
+    const next = this.queue.then(async () => {
+      const hash = createHash('sha256').update(token).digest('base64url');
+      for (let length = ID_LENGTH; length <= hash.length; length += 4) {
+        const id = hash.slice(0, length);
+        const existing = await this.read(id);
+        if (existing?.token === token) return existing;
+        if (existing) continue;
+        const link: SharedLink = { id, token, createdAt: new Date().toISOString() };
+        await mkdir(this.dir, { recursive: true });
+        const temp = path.join(this.dir, `${id}.${process.pid}.tmp`);
+        await writeFile(temp, JSON.stringify(link, null, 2));
+        await rename(temp, this.file(id));
+        await this.prune();
+        return link;
+      }
+      throw new Error('No free id for the link.');
+    });
+    // Keep the chain alive after a failed write
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async read(id: string): Promise<SharedLink | undefined> {
+    try {
+      return JSON.parse(await readFile(this.file(id), 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  // Removes the oldest links beyond MAX_LINKS
+  private async prune(): Promise<void> {
+    const names = (await readdir(this.dir)).filter((name) => name.endsWith('.json'));
+    if (names.length <= MAX_LINKS) return;
+    const files = await Promise.all(
+      names.map(async (name) => ({ name, modified: (await stat(path.join(this.dir, name))).mtimeMs })),
+    );
+    files.sort((a, b) => a.modified - b.modified);
+    await Promise.all(files.slice(0, files.length - MAX_LINKS).map(({ name }) => unlink(path.join(this.dir, name))));
+  }
+}
+
+// Reads the store location from the environment:
+//   SHARE_DIR  directory to keep short links in (default: data/shares)
+const globalForShares = globalThis as unknown as { shareStore?: ShareStore };
+
+export function getShareStore(): ShareStore {
+  globalForShares.shareStore ??= new ShareStore(
+    path.resolve(process.cwd(), process.env.SHARE_DIR || 'data/shares'),
+  );
+  return globalForShares.shareStore;
+}
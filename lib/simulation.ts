@@ -0,0 +1,102 @@
+import { riskAssumptions, type RiskLevel } from "@/lib/projection";
+
+export interface SimulationInput {
+  startingSavings?: number;
+  monthlyContribution: number;
+  years: number;
+  riskLevel: RiskLevel;
+  // Balance the investor wants to reach by the end of `years`
+  targetAmount?: number;
+  paths?: number;
+  // Same seed, same inputs => same result
+  seed?: number;
+}
+
+export interface SimulationYear {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationResult {
+  paths: number;
+  seed: number;
+  schedule: SimulationYear[];
+  targetAmount?: number;
+  // Share of paths whose final balance reaches targetAmount, 0..1
+  successProbability?: number;
+}
+
+export const DEFAULT_PATHS = 2000;
+// simulate() runs synchronously on the server's event loop, which streaming
+// and the worker pool share; 2000 paths over 50 years take ~150ms
+export const MAX_PATHS = 2000;
+
+// mulberry32: tiny, fast and good enough for simulation; Math.random can't be seeded
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample via Box-Muller
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return Math.round(sorted[index] * 100) / 100;
+}
+
+// Runs randomized monthly return paths using the expected return and
+// volatility for the risk level. Monthly log-returns are normal with the
+// drift chosen so the mean annual return matches riskAssumptions.
+export function simulate({
+  startingSavings = 0,
+  monthlyContribution,
+  years,
+  riskLevel,
+  targetAmount,
+  paths = DEFAULT_PATHS,
+  seed = Math.floor(Math.random() * 2 ** 32),
+}: SimulationInput): SimulationResult {
+  const { expectedReturn, volatility } = riskAssumptions[riskLevel];
+  const sigma = volatility / Math.sqrt(12);
+  const mu = Math.log(1 + expectedReturn) / 12 - (sigma * sigma) / 2;
+  const normal = createNormal(createRandom(seed));
+
+  // balances[year][path]
+  const balances = Array.from({ length: years + 1 }, () => new Float64Array(paths));
+  for (let path = 0; path < paths; path++) {
+    let balance = startingSavings;
+    balances[0][path] = balance;
+    for (let year = 1; year <= years; year++) {
+      for (let month = 0; month < 12; month++) {
+        balance = balance * Math.exp(mu + sigma * normal()) + monthlyContribution;
+      }
+      balances[year][path] = balance;
+    }
+  }
+
+  const finals = balances[years];
+  const successProbability =
+    targetAmount === undefined ? undefined : finals.filter((b) => b >= targetAmount).length / paths;
+
+  const schedule = balances.map((values, year) => {
+    const sorted = values.slice().sort();
+    return { year, p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+  });
+
+  return { paths, seed, schedule, targetAmount, successProbability };
+}
@@ -0,0 +1,42 @@
+// Minimal Server-Sent Events helpers shared by the streaming route and the
+// browser. Every event carries a JSON payload on a single `data:` line.
+
+export interface SSEEvent {
+  event: string;
+  data: unknown;
+}
+
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Reads an event stream from a fetch response body, calling onEvent for each
+// complete event. Resolves when the server closes the stream.
+export async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    let event = "message";
+    let data = "";
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data += line.slice(5).trim();
+    }
+    if (data) onEvent({ event, data: JSON.parse(data) });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? "";
+    blocks.forEach(flush);
+  }
+  if (buffer.trim()) flush(buffer);
+}
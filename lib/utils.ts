@@ -1,6 +1,33 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_CURRENCY, type Currency } from "@/lib/currency"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+// Intl.NumberFormat is costly to construct, so one is kept per combination
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function currencyFormatter(currency: Currency, locale: string, compact: boolean) {
+  const key = `${locale}:${currency}:${compact}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      ...(compact ? { notation: "compact", maximumFractionDigits: 1 } : { maximumFractionDigits: 0 }),
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+export function formatCurrency(value: number, currency: Currency = DEFAULT_CURRENCY, locale = "en-IL") {
+  return currencyFormatter(currency, locale, false).format(value)
+}
+
+// Short form for chart axes, e.g. ₪1.2M
+export function formatCompactCurrency(value: number, currency: Currency = DEFAULT_CURRENCY, locale = "en-IL") {
+  return currencyFormatter(currency, locale, true).format(value)
+}
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { I18nProvider } from "@/components/I18nProvider";
+import { ScenarioComparison, type ScenarioVariant } from "@/components/ScenarioComparison";
+import { messages } from "@/lib/i18n";
+import { profileSchema } from "@/lib/profile";
+
+vi.mock("next/navigation", () => ({ useRouter: () => ({ refresh() {} }) }));
+
+const t = messages.en;
+
+const profile = profileSchema.parse({
+  age: 30,
+  budget: 1000,
+  goal: "retirement",
+  riskLevel: "medium",
+  timeHorizon: 20,
+  currency: "ILS",
+});
+
+function renderComparison(...variants: ScenarioVariant[]) {
+  return render(
+    <I18nProvider initialLocale="en">
+      <ScenarioComparison variants={variants} onLoad={() => {}} onRemove={() => {}} />
+    </I18nProvider>,
+  );
+}
+
+describe("ScenarioComparison", () => {
+  it("shows outcomes as a difference from the baseline", () => {
+    renderComparison({ id: "a", profile }, { id: "b", profile: { ...profile, budget: 2000 } });
+    expect(screen.getAllByText(/^\+/)).not.toHaveLength(0);
+    expect(screen.queryByText(t.comparison.otherCurrency)).toBeNull();
+  });
+
+  it("doesn't subtract amounts in different currencies", () => {
+    renderComparison({ id: "a", profile }, { id: "b", profile: { ...profile, budget: 2000, currency: "USD" } });
+    expect(screen.queryAllByText(/^[+−]/)).toHaveLength(0);
+    expect(screen.getAllByText(t.comparison.otherCurrency)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,166 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { I18nProvider } from "@/components/I18nProvider";
+import { UserForm } from "@/components/UserForm";
+import { apiErrorBody, errorCatalog, type ErrorCode } from "@/lib/errors";
+import { messages } from "@/lib/i18n";
+import type { InvestmentPlan } from "@/lib/plan";
+import { formatSSE } from "@/lib/sse";
+
+vi.mock("next/navigation", () => ({ useRouter: () => ({ refresh() {} }) }));
+
+const t = messages.en;
+
+const plan: InvestmentPlan = {
+  summary: "Put most of the budget into a global index fund.",
+  allocations: [
+    { assetClass: "Equities", percentage: 70, instruments: ["Global index ETF"] },
+    { assetClass: "Bonds", percentage: 30, instruments: ["Government bond fund"] },
+  ],
+  rebalancing: "annually",
+  rationale: "A long horizon leaves room for equity risk.",
+  warnings: [],
+};
+
+const done = {
+  result: JSON.stringify(plan),
+  plan,
+  provider: "python",
+  model: "mock-model",
+  template: { id: "default", version: 4 },
+  prompt: "You are a careful financial planner.",
+  guardrails: { findings: [], disclaimer: "This is not financial advice." },
+};
+
+function sse(...events: [string, unknown][]) {
+  const body = events.map(([event, data]) => formatSSE(event, data)).join("");
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+const streamError = (code: ErrorCode) => sse(["error", { ...apiErrorBody(code), status: errorCatalog[code].status }]);
+
+// Answers the form's requests the way the API would; `predict` answers the
+// generate call
+function stubFetch(predict: () => Response) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url.startsWith("/api/predict/stream")) return predict();
+    if (url === "/api/history" && init?.method === "POST") {
+      const entry = JSON.parse(String(init.body));
+      return Response.json({ ...entry, id: "entry-1", createdAt: "2026-01-01T00:00:00.000Z" }, { status: 201 });
+    }
+    if (url === "/api/history") return Response.json({ entries: [] });
+    return Response.json(apiErrorBody("NOT_FOUND"), { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function renderForm() {
+  return render(
+    <I18nProvider initialLocale="en">
+      <UserForm />
+    </I18nProvider>,
+  );
+}
+
+// The defaults cover the rest of the profile
+async function fillProfile(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(screen.getByRole("button", { name: t.fields.goal.enterCustom }));
+  await user.type(screen.getByPlaceholderText(t.fields.goal.customPlaceholder), "Buy a house");
+  const riskField = screen.getByText(t.fields.riskLevel.label).closest<HTMLElement>("[data-slot=form-item]")!;
+  await user.click(within(riskField).getByRole("combobox"));
+  await user.click(screen.getByRole("option", { name: t.riskLevels.medium }));
+}
+
+describe("UserForm", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("generates a plan, saves the run and resets", async () => {
+    const fetchMock = stubFetch(() => sse(["token", { token: "{" }], ["done", done]));
+    const user = userEvent.setup();
+    renderForm();
+
+    await fillProfile(user);
+    await user.click(screen.getByRole("button", { name: t.actions.generate }));
+
+    expect(await screen.findByText(plan.summary)).toBeTruthy();
+    expect(screen.getByText(done.guardrails.disclaimer)).toBeTruthy();
+    const [, init] = fetchMock.mock.calls.find(([url]) => String(url).startsWith("/api/predict/stream"))!;
+    expect(JSON.parse(String(init?.body))).toMatchObject({ profile: { goal: "Buy a house", age: 25 }, format: "plan" });
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith("/api/history", expect.objectContaining({ method: "POST" })),
+    );
+
+    await user.click(screen.getByRole("button", { name: t.actions.reset }));
+    expect(screen.queryByText(plan.summary)).toBeNull();
+    expect(screen.queryByPlaceholderText(t.fields.goal.customPlaceholder)).toHaveProperty("value", "");
+  });
+
+  it("asks for a goal before generating", async () => {
+    const fetchMock = stubFetch(() => sse(["done", done]));
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByRole("button", { name: t.actions.generate }));
+    expect(await screen.findByText(t.validation.goalRequired)).toBeTruthy();
+    expect(fetchMock.mock.calls.some(([url]) => String(url).startsWith("/api/predict"))).toBe(false);
+  });
+
+  it("explains a failed generation and retries it", async () => {
+    const predict = vi.fn().mockReturnValueOnce(streamError("SERVER_BUSY")).mockReturnValueOnce(sse(["done", done]));
+    stubFetch(predict);
+    const user = userEvent.setup();
+    renderForm();
+
+    await fillProfile(user);
+    await user.click(screen.getByRole("button", { name: t.actions.generate }));
+    expect(await screen.findByText(t.errors.codes.SERVER_BUSY)).toBeTruthy();
+
+    await user.click(screen.getByRole("button", { name: t.errors.retry }));
+    expect(await screen.findByText(plan.summary)).toBeTruthy();
+    expect(screen.queryByText(t.errors.codes.SERVER_BUSY)).toBeNull();
+    expect(predict).toHaveBeenCalledTimes(2);
+  });
+
+  it("removes streamed text the guardrails rejected", async () => {
+    const rejected = "Borrow on margin to double your savings.";
+    stubFetch(() =>
+      sse(
+        ...rejected.split(" ").map((word): [string, unknown] => ["token", { token: `${word} ` }]),
+        ["error", { ...apiErrorBody("GUARDRAIL_REJECTED"), status: errorCatalog.GUARDRAIL_REJECTED.status }],
+      ),
+    );
+    const user = userEvent.setup();
+    renderForm();
+
+    await fillProfile(user);
+    await user.click(screen.getByRole("button", { name: t.actions.generate }));
+    expect(await screen.findByText(t.errors.codes.GUARDRAIL_REJECTED)).toBeTruthy();
+    expect(screen.queryByText(rejected)).toBeNull();
+    expect(screen.queryByText(t.sections.recommendation)).toBeNull();
+  });
+
+  it("shows option errors from a rejected request without offering a retry", async () => {
+    stubFetch(() =>
+      Response.json(apiErrorBody("INVALID_INPUT", "Invalid generation options.", { optionErrors: { model: ['Unknown model "gpt-17".'] } }), {
+        status: 400,
+      }),
+    );
+    const user = userEvent.setup();
+    renderForm();
+
+    await fillProfile(user);
+    await user.click(screen.getByRole("button", { name: t.actions.generate }));
+    expect(await screen.findByText(`${t.errors.codes.INVALID_INPUT} Unknown model "gpt-17".`)).toBeTruthy();
+    expect(screen.queryByRole("button", { name: t.errors.retry })).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import path from "path";
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { ApiAccess, apiAccessOptionsFromEnv, checkClientIdentification, clientIp, RETIRED_USAGE } from "@/lib/apiAccess";
+
+const request = (forwardedFor?: string) =>
+  new NextRequest("http://localhost/api/predict", {
+    headers: forwardedFor ? { "X-Forwarded-For": forwardedFor } : {},
+  });
+
+const env = (vars: Record<string, string> = {}) => ({ NODE_ENV: "test", ...vars }) as NodeJS.ProcessEnv;
+
+describe("clientIp", () => {
+  it("ignores X-Forwarded-For without a trusted proxy", () => {
+    expect(clientIp(request("203.0.113.7"), 0)).toBe("direct");
+    expect(clientIp(request(), 0)).toBe("direct");
+  });
+
+  it("takes the address the outermost trusted proxy saw", () => {
+    // The caller sent "1.1.1.1"; the proxy appended the real address
+    expect(clientIp(request("1.1.1.1, 203.0.113.7"), 1)).toBe("203.0.113.7");
+    expect(clientIp(request("1.1.1.1, 203.0.113.7, 10.0.0.2"), 2)).toBe("203.0.113.7");
+    expect(clientIp(request("203.0.113.7"), 2)).toBe("203.0.113.7");
+    expect(clientIp(request(), 1)).toBe("unknown");
+  });
+
+  it("reads the number of proxies from TRUST_PROXY", () => {
+    expect(apiAccessOptionsFromEnv(env()).trustedProxies).toBe(0);
+    expect(apiAccessOptionsFromEnv(env({ TRUST_PROXY: "true" })).trustedProxies).toBe(1);
+    expect(apiAccessOptionsFromEnv(env({ TRUST_PROXY: "2" })).trustedProxies).toBe(2);
+    expect(apiAccessOptionsFromEnv(env({ TRUST_PROXY: "false" })).trustedProxies).toBe(0);
+  });
+});
+
+describe("checkClientIdentification", () => {
+  const check = (vars: Record<string, string>) => checkClientIdentification(apiAccessOptionsFromEnv(env(vars)), env(vars));
+
+  it("refuses a production server that can't tell callers apart", () => {
+    expect(() => check({ NODE_ENV: "production" })).toThrow(/TRUST_PROXY/);
+    expect(check({ NODE_ENV: "production", TRUST_PROXY: "1" })).toBeUndefined();
+    expect(check({ NODE_ENV: "production", REQUIRE_API_KEY: "true" })).toBeUndefined();
+  });
+
+  it("only warns in development", () => {
+    expect(check({ NODE_ENV: "development" })).toMatch(/REQUIRE_API_KEY/);
+  });
+});
+
+describe("ApiAccess", () => {
+  const access = () =>
+    new ApiAccess({
+      ...apiAccessOptionsFromEnv(env()),
+      keysFile: path.join(__dirname, "no-api-keys.json"),
+      ipLimit: { perMinute: 2 },
+    });
+
+  it("limits each IP to its bucket", () => {
+    const limiter = access();
+    expect(limiter.check(undefined, "a", 0).ok).toBe(true);
+    expect(limiter.check(undefined, "a", 0).ok).toBe(true);
+    expect(limiter.check(undefined, "a", 0)).toMatchObject({ ok: false, code: "RATE_LIMITED" });
+    expect(limiter.check(undefined, "b", 0).ok).toBe(true);
+    expect(limiter.usageFor("ip:a")).toMatchObject({ requests: 3, rateLimited: 1 });
+  });
+
+  it("doesn't rate limit or count checks without rateLimit", () => {
+    const limiter = access();
+    for (let i = 0; i < 5; i++) expect(limiter.check(undefined, "scraper", 0, { rateLimit: false }).ok).toBe(true);
+    expect(limiter.check(undefined, "scraper", 0).ok).toBe(true);
+    expect(limiter.usageFor("ip:scraper")).toMatchObject({ requests: 1, rateLimited: 0 });
+  });
+
+  it("folds the usage of pruned IPs into one entry", () => {
+    const limiter = access();
+    for (let i = 0; i < 1000; i++) limiter.check(undefined, `10.0.${i >> 8}.${i & 255}`, 0);
+    // A minute later every bucket has refilled and is pruned on the next check
+    limiter.check(undefined, "latest", 60_000);
+
+    const usage = limiter.allUsage();
+    expect(Object.keys(usage).sort()).toEqual([RETIRED_USAGE, "ip:latest"].sort());
+    expect(usage[RETIRED_USAGE]).toEqual({ requests: 1000, rateLimited: 0 });
+  });
+});
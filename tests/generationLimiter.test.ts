@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { generationLimitsFromEnv, Semaphore, type AcquireResult } from "@/lib/generationLimiter";
+
+// The release function of a granted slot
+function granted(result: AcquireResult) {
+  expect(result.ok).toBe(true);
+  return result.ok ? result.release : () => {};
+}
+
+describe("Semaphore", () => {
+  it("queues callers beyond the limit and grants slots in order", async () => {
+    const semaphore = new Semaphore(1, 2);
+    const release = granted(await semaphore.acquire());
+    const first = semaphore.acquire();
+    const second = semaphore.acquire();
+    expect(semaphore.stats()).toEqual({ active: 1, queued: 2 });
+
+    release();
+    const releaseFirst = granted(await first);
+    expect(semaphore.stats()).toEqual({ active: 1, queued: 1 });
+    releaseFirst();
+    granted(await second)();
+    expect(semaphore.stats()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it("turns callers away when the queue is full", async () => {
+    const semaphore = new Semaphore(1, 1);
+    granted(await semaphore.acquire());
+    void semaphore.acquire();
+    expect(await semaphore.acquire()).toEqual({ ok: false, reason: "queue_full" });
+  });
+
+  it("gives up waiting at the deadline", async () => {
+    const semaphore = new Semaphore(1, 1);
+    granted(await semaphore.acquire());
+    expect(await semaphore.acquire({ deadline: Date.now() + 20 })).toEqual({ ok: false, reason: "timeout" });
+    expect(semaphore.stats()).toEqual({ active: 1, queued: 0 });
+  });
+
+  it("drops a waiter whose request is cancelled", async () => {
+    const semaphore = new Semaphore(1, 1);
+    granted(await semaphore.acquire());
+    const controller = new AbortController();
+    const waiting = semaphore.acquire({ signal: controller.signal });
+    controller.abort();
+    expect(await waiting).toEqual({ ok: false, reason: "cancelled" });
+    expect(await semaphore.acquire({ signal: controller.signal })).toEqual({ ok: false, reason: "cancelled" });
+    expect(semaphore.stats().queued).toBe(0);
+  });
+
+  it("releases each slot only once", async () => {
+    const semaphore = new Semaphore(2, 0);
+    const release = granted(await semaphore.acquire());
+    granted(await semaphore.acquire());
+    release();
+    release();
+    expect(semaphore.stats().active).toBe(1);
+  });
+});
+
+const env = (vars: Record<string, string>) => ({ NODE_ENV: "test", ...vars }) as NodeJS.ProcessEnv;
+
+describe("generationLimitsFromEnv", () => {
+  it("defaults the concurrency to the number of workers and ignores invalid values", () => {
+    expect(generationLimitsFromEnv(env({ PYTHON_WORKERS: "3", MAX_QUEUED_GENERATIONS: "-1" }))).toEqual({
+      maxConcurrent: 3,
+      maxQueued: 8,
+      timeoutMs: 60000,
+      retryAfterSeconds: 10,
+    });
+    expect(generationLimitsFromEnv(env({ MAX_CONCURRENT_GENERATIONS: "2", PYTHON_WORKERS: "3" })).maxConcurrent).toBe(2);
+  });
+});
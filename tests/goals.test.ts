@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { allocateBudget, goalDisplayName, requiredMonthlyContribution } from "@/lib/goals";
+import { messages } from "@/lib/i18n";
+import { riskAssumptions } from "@/lib/projection";
+
+const profile = { goal: "retirement", timeHorizon: 20, budget: 600, riskLevel: "high", startingSavings: 6000 } as const;
+
+describe("allocateBudget", () => {
+  it("splits the budget and savings of open-ended goals by priority", () => {
+    const allocations = allocateBudget({
+      ...profile,
+      additionalGoals: [
+        { goal: "Car", timeHorizon: 10, priority: "low" },
+        { goal: "education", timeHorizon: 15, priority: "medium" },
+      ],
+    });
+    expect(allocations.map((a) => [a.goal, a.priority, a.monthly, a.startingBalance])).toEqual([
+      ["retirement", "high", 300, 3000],
+      ["Car", "low", 100, 1000],
+      ["education", "medium", 200, 2000],
+    ]);
+    expect(allocations.every((a) => a.required === undefined && a.onTrack === undefined)).toBe(true);
+  });
+
+  it("funds goals with a target first and gives the rest to open-ended goals", () => {
+    const [main, house] = allocateBudget({
+      ...profile,
+      startingSavings: 0,
+      additionalGoals: [{ goal: "house", timeHorizon: 10, targetAmount: 30000, priority: "medium" }],
+    });
+    const required = requiredMonthlyContribution(30000, 10, riskAssumptions.high.expectedReturn);
+    expect(house.required).toBeCloseTo(required, 2);
+    expect(house.monthly).toBeCloseTo(required, 2);
+    expect(house.onTrack).toBe(true);
+    expect(main.monthly).toBeCloseTo(600 - required, 2);
+  });
+
+  it("serves higher priority and then sooner targets first when the budget runs short", () => {
+    const allocations = allocateBudget({
+      ...profile,
+      startingSavings: 0,
+      budget: 1000,
+      targetAmount: 1000000,
+      goalPriority: "medium",
+      additionalGoals: [
+        { goal: "Later", timeHorizon: 15, targetAmount: 500000, priority: "high" },
+        { goal: "Sooner", timeHorizon: 10, targetAmount: 500000, priority: "high" },
+      ],
+    });
+    const [main, later, sooner] = allocations;
+    expect(sooner.monthly).toBe(1000);
+    expect(later.monthly).toBe(0);
+    expect(main.monthly).toBe(0);
+    expect(allocations.map((a) => a.onTrack)).toEqual([false, false, false]);
+  });
+
+  it("splits what targets leave over across every goal when all have one", () => {
+    const [main, car] = allocateBudget({
+      ...profile,
+      startingSavings: 0,
+      targetAmount: 1,
+      additionalGoals: [{ goal: "Car", timeHorizon: 10, targetAmount: 1, priority: "high" }],
+    });
+    expect(main.monthly + car.monthly).toBeCloseTo(600, 2);
+    expect(main.monthly).toBeCloseTo(car.monthly, 2);
+  });
+
+  it("lowers the risk level of goals too close for it", () => {
+    const allocations = allocateBudget({
+      ...profile,
+      additionalGoals: [
+        { goal: "Wedding", timeHorizon: 2, priority: "medium" },
+        { goal: "Car", timeHorizon: 5, priority: "medium" },
+      ],
+    });
+    expect(allocations.map((a) => a.riskLevel)).toEqual(["high", "low", "medium"]);
+    expect(allocateBudget({ ...profile, riskLevel: "low" })[0].riskLevel).toBe("low");
+  });
+});
+
+describe("goalDisplayName", () => {
+  it("names preset goals in the given language and keeps custom ones", () => {
+    expect(goalDisplayName("house")).toBe("Buying a House");
+    expect(goalDisplayName("house", "he")).toBe(messages.he.goals.house);
+    expect(goalDisplayName("A boat", "he")).toBe("A boat");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { applyPlanGuardrails, applyTextGuardrails, disclaimers } from "@/lib/guardrails";
+import type { InvestmentPlan } from "@/lib/plan";
+
+const medium = { riskLevel: "medium", jurisdiction: "IL" } as const;
+
+describe("applyTextGuardrails", () => {
+  it("softens guaranteed returns, keeping the case", () => {
+    const result = applyTextGuardrails("Guaranteed growth from a risk-free fund that can't lose money.", medium);
+    expect(result).toMatchObject({ ok: true, value: "Potential growth from a lower-risk fund that can still lose money." });
+    expect(result.report.findings).toEqual([
+      expect.objectContaining({ rule: "guaranteed-returns", action: "rewrite", matches: ["Guaranteed", "risk-free", "can't lose money"] }),
+    ]);
+  });
+
+  it("ignores wording the text argues against", () => {
+    const result = applyTextGuardrails("No fund is guaranteed, and you should avoid leverage.", medium);
+    expect(result).toMatchObject({ ok: true, value: "No fund is guaranteed, and you should avoid leverage." });
+    expect(result.report.findings).toEqual([]);
+  });
+
+  it("notes that named securities are only examples", () => {
+    const result = applyTextGuardrails("Consider Apple stock or $VOO.", medium);
+    expect(result.ok && result.value).toContain("Note: Specific securities are mentioned for illustration only");
+    expect(result.report.findings[0]).toMatchObject({ rule: "specific-securities", matches: ["Apple", "$VOO"] });
+  });
+
+  it("handles leverage by risk level", () => {
+    const text = "Add some crypto for growth.";
+    const low = applyTextGuardrails(text, { ...medium, riskLevel: "low" });
+    expect(low).toMatchObject({ ok: false });
+    expect(low.report.findings[0]).toMatchObject({ rule: "leverage", action: "reject" });
+
+    const annotated = applyTextGuardrails(text, medium);
+    expect(annotated.ok && annotated.value).toContain("Note: Leveraged or speculative instruments");
+
+    expect(applyTextGuardrails(text, { ...medium, riskLevel: "high" })).toMatchObject({ ok: true, value: text });
+  });
+
+  it("adds the jurisdiction's disclaimer", () => {
+    expect(applyTextGuardrails("Invest monthly.", { ...medium, jurisdiction: "EU" }).report).toEqual({
+      findings: [],
+      jurisdiction: "EU",
+      disclaimer: disclaimers.EU,
+    });
+  });
+});
+
+describe("applyPlanGuardrails", () => {
+  const plan: InvestmentPlan = {
+    summary: "Guaranteed growth.",
+    allocations: [
+      { assetClass: "Equities", percentage: 80, instruments: ["Global index fund"] },
+      { assetClass: "Bonds", percentage: 20, instruments: ["Government bonds"] },
+    ],
+    rebalancing: "annually",
+    rationale: "A long horizon.",
+    warnings: [],
+  };
+
+  it("checks every text field and warns about equities in a low-risk plan", () => {
+    const result = applyPlanGuardrails(plan, { ...medium, riskLevel: "low" });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.summary).toBe("Potential growth.");
+    expect(result.value.warnings).toEqual(["The plan puts 80% in equities, which is high for a low-risk profile."]);
+    expect(result.report.findings.map((f) => f.rule)).toEqual(["guaranteed-returns", "risk-mismatch"]);
+  });
+
+  it("allows the same equity share at medium risk", () => {
+    const result = applyPlanGuardrails(plan, medium);
+    expect(result.ok && result.value.warnings).toEqual([]);
+  });
+
+  it("rejects a low-risk plan that uses leverage", () => {
+    const leveraged = { ...plan, allocations: [{ assetClass: "Bonds", percentage: 100, instruments: ["3x ETFs"] }] };
+    expect(applyPlanGuardrails(leveraged, { ...medium, riskLevel: "low" })).toMatchObject({ ok: false });
+  });
+});
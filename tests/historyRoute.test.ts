@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DELETE, PATCH } from "@/app/api/history/[id]/route";
+import { GET, POST } from "@/app/api/history/route";
+import { HISTORY_OWNER_COOKIE } from "@/lib/historyStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "history-"));
+const keysFile = path.join(dir, "api-keys.json");
+const KEY = "test-key-0123456789abcdef";
+
+const entry = {
+  name: "House · medium risk · 10y",
+  profile: { age: 30, budget: 1000, goal: "house", riskLevel: "medium", timeHorizon: 10 },
+  prompt: "Create a plan.",
+  provider: "mock",
+  model: "mock-model",
+  result: "Buy index funds.",
+};
+
+interface RequestOptions {
+  method?: string;
+  body?: string;
+  cookie?: string;
+  key?: string;
+}
+
+function request(url: string, { method, body, cookie, key }: RequestOptions = {}) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (cookie) headers.Cookie = `${HISTORY_OWNER_COOKIE}=${cookie}`;
+  if (key) headers.Authorization = `Bearer ${key}`;
+  return new NextRequest(`http://localhost${url}`, { method, body, headers });
+}
+
+// The history_owner cookie a response sets, if any
+const ownerCookie = (res: Response) => res.headers.get("set-cookie")?.match(/history_owner=([^;]+);.*HttpOnly/i)?.[1];
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+// Saves an entry as a new browser and returns it with the browser's cookie
+async function saveAsNewBrowser() {
+  const res = await POST(request("/api/history", { method: "POST", body: JSON.stringify(entry) }), {});
+  expect(res.status).toBe(201);
+  const cookie = ownerCookie(res);
+  expect(cookie).toBeDefined();
+  return { saved: await res.json(), cookie: cookie! };
+}
+
+beforeAll(() => {
+  writeFileSync(keysFile, JSON.stringify({ keys: [{ name: "tools", key: KEY }] }));
+  vi.stubEnv("HISTORY_FILE", path.join(dir, "history.json"));
+  vi.stubEnv("API_KEYS_FILE", keysFile);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("/api/history", () => {
+  it("lists only the entries saved by the same browser", async () => {
+    const first = await saveAsNewBrowser();
+    const second = await saveAsNewBrowser();
+    expect(second.cookie).not.toBe(first.cookie);
+
+    const res = await GET(request("/api/history", { cookie: first.cookie }), {});
+    expect((await res.json()).entries.map((e: { id: string }) => e.id)).toEqual([first.saved.id]);
+    expect(ownerCookie(res)).toBeUndefined();
+
+    const stranger = await GET(request("/api/history"), {});
+    expect((await stranger.json()).entries).toEqual([]);
+  });
+
+  it("keeps API key entries apart from browsers", async () => {
+    const res = await POST(request("/api/history", { method: "POST", key: KEY, body: JSON.stringify(entry) }), {});
+    expect(res.status).toBe(201);
+    expect(ownerCookie(res)).toBeUndefined();
+    const { id } = await res.json();
+
+    const listed = await (await GET(request("/api/history", { key: KEY }), {})).json();
+    expect(listed.entries.map((e: { id: string }) => e.id)).toEqual([id]);
+  });
+
+  it("doesn't rename or delete another browser's entries", async () => {
+    const { saved, cookie } = await saveAsNewBrowser();
+    const other = await saveAsNewBrowser();
+    const rename = (owner: string) =>
+      PATCH(request(`/api/history/${saved.id}`, { method: "PATCH", cookie: owner, body: JSON.stringify({ name: "Mine" }) }), params(saved.id));
+
+    expect((await rename(other.cookie)).status).toBe(404);
+    expect((await DELETE(request(`/api/history/${saved.id}`, { method: "DELETE", cookie: other.cookie }), params(saved.id))).status).toBe(404);
+
+    expect(await (await rename(cookie)).json()).toMatchObject({ id: saved.id, name: "Mine" });
+    expect((await DELETE(request(`/api/history/${saved.id}`, { method: "DELETE", cookie }), params(saved.id))).status).toBe(204);
+  });
+});
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+// mockGenerate.mjs - stand-in for generate.py that needs no model
+//
+// Speaks the same JSON-lines protocol on stdin/stdout (see generate.py), so the
+// worker pool and the python provider can be exercised offline:
+//
+//   PYTHON_BIN=node PYTHON_SCRIPT=tests/mockGenerate.mjs LLM_PROVIDER=python npm run dev
+//
+// Behaviour is scripted with a JSON config, passed as the first argument or in
+// MOCK_GENERATE:
+//
+//   {
+//     "loadDelayMs": 0,          // wait before the {"ready": true} line
+//     "loadError": "...",        // report a model that fails to load, then exit 1
+//     "rules": [                 // the first rule whose `match` is in the prompt
+//       {                        // applies; a rule without `match` applies to all
+//         "match": "Retirement",
+//         "result": "...",       // text generated after the echoed prompt
+//         "echo": true,          // prefix the result (not the tokens) with the prompt, like generate.py
+//         "error": "...",        // answer with an error line instead...
+//         "code": "...",         // ...carrying this code (default GENERATION_FAILED)
+//         "delayMs": 0,          // wait before answering
+//         "tokenDelayMs": 0,     // wait between streamed tokens
+//         "stderr": "...",       // write this line to stderr first
+//         "crash": true,         // exit 1 mid-request without answering
+//         "malformed": true      // print noise, then a result that isn't a string
+//       }
+//     ]
+//   }
+//
+// Without a matching rule, the prompt is echoed followed by DEFAULT_RESULT.
+import { createInterface } from "readline";
+
+const DEFAULT_RESULT =
+  "Invest your monthly budget in a diversified, low-cost index fund and keep a bond allocation to reduce volatility.";
+
+const config = JSON.parse(process.argv[2] || process.env.MOCK_GENERATE || "{}");
+const cancelled = new Set();
+const queue = [];
+let running = false;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function respond(payload, id) {
+  process.stdout.write(JSON.stringify(id === undefined ? payload : { ...payload, id }) + "\n");
+}
+
+function ruleFor(prompt) {
+  return (config.rules ?? []).find((rule) => rule.match === undefined || prompt.includes(rule.match)) ?? {};
+}
+
+async function handle(data) {
+  const id = data.id;
+  const prompt = String(data.prompt ?? "").trim();
+  if (!prompt) {
+    respond({ error: "Prompt is required.", code: "INVALID_INPUT" }, id);
+    return;
+  }
+  const rule = ruleFor(prompt);
+  if (rule.stderr) process.stderr.write(rule.stderr + "\n");
+  if (rule.delayMs) await sleep(rule.delayMs);
+  if (rule.crash) {
+    process.stderr.write("Traceback (most recent call last):\nRuntimeError: mock crash\n");
+    process.exit(1);
+  }
+  if (rule.malformed) {
+    process.stdout.write("this is not JSON\n");
+    respond({ result: { unexpected: true } }, id);
+    return;
+  }
+  if (rule.error !== undefined) {
+    respond({ error: rule.error, code: rule.code ?? "GENERATION_FAILED" }, id);
+    return;
+  }
+
+  const generated = rule.result ?? DEFAULT_RESULT;
+  const echo = rule.echo === false ? "" : `${prompt} `;
+  let result = echo + generated;
+  if (data.stream) {
+    // Only generated text is streamed; the result still starts with the prompt
+    result = echo;
+    for (const token of generated.match(/\S+\s*/g) ?? []) {
+      if (cancelled.has(id)) break;
+      respond({ token }, id);
+      result += token;
+      if (rule.tokenDelayMs) await sleep(rule.tokenDelayMs);
+    }
+  }
+  const payload = { result, model: data.model || "mock" };
+  if (cancelled.has(id)) payload.cancelled = true;
+  cancelled.delete(id);
+  respond(payload, id);
+}
+
+// Requests are answered one at a time, like generate.py
+async function drain() {
+  if (running) return;
+  running = true;
+  while (queue.length) await handle(queue.shift());
+  running = false;
+}
+
+async function main() {
+  if (config.loadDelayMs) await sleep(config.loadDelayMs);
+  if (config.loadError) {
+    respond({ error: `Failed to load model: ${config.loadError}`, code: "MODEL_UNAVAILABLE" });
+    process.exit(1);
+  }
+  respond({ ready: true });
+
+  const lines = createInterface({ input: process.stdin });
+  lines.on("line", (line) => {
+    let data;
+    try {
+      data = JSON.parse(line);
+    } catch (e) {
+      respond({ error: `Invalid JSON: ${e.message}`, code: "INVALID_INPUT" });
+      return;
+    }
+    if (data.cancel) {
+      cancelled.add(data.id);
+      return;
+    }
+    queue.push(data);
+    drain();
+  });
+  // Finish what was asked, then exit on EOF like generate.py
+  lines.on("close", async () => {
+    while (running || queue.length) await sleep(5);
+    process.exit(0);
+  });
+}
+
+main();
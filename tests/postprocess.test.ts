@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  collapseRepetition,
+  findDegenerateOutput,
+  normalizeCurrency,
+  postprocessOutput,
+  trimIncompleteSentence,
+} from "@/lib/postprocess";
+
+describe("normalizeCurrency", () => {
+  it("writes shekel amounts one way", () => {
+    expect(normalizeCurrency("NIS 1000, 1000 ILS, 1,000 shekels and ₪ 1000.")).toBe("₪1,000, ₪1,000, ₪1,000 and ₪1,000.");
+    expect(normalizeCurrency("Pay 2,500.50 NIS, then 3 new Israeli shekels")).toBe("Pay ₪2,500.5, then ₪3");
+  });
+
+  it("leaves years next to a currency name alone", () => {
+    expect(normalizeCurrency("By 2030 NIS 5 million")).toBe("By 2030 ₪5 million");
+    expect(normalizeCurrency("in 2030 ILS rates")).toBe("in 2030 ILS rates");
+  });
+
+  it("doesn't change amounts it already wrote", () => {
+    const once = normalizeCurrency("Invest NIS 12000 a year");
+    expect(once).toBe("Invest ₪12,000 a year");
+    expect(normalizeCurrency(once)).toBe(once);
+  });
+
+  it("only reads the number right next to the currency", () => {
+    expect(normalizeCurrency("Save 1,000, NIS 50 of it monthly")).toBe("Save 1,000, ₪50 of it monthly");
+  });
+});
+
+describe("trimIncompleteSentence", () => {
+  it("drops a sentence that was cut off", () => {
+    expect(trimIncompleteSentence("Invest monthly. Then rebalance once a")).toBe("Invest monthly.");
+    expect(trimIncompleteSentence("Invest monthly.\nThen rebalance once a")).toBe("Invest monthly.");
+  });
+
+  it("doesn't end a sentence at an abbreviation or a decimal", () => {
+    expect(trimIncompleteSentence("Put 60% in equities, e.g. global ETFs")).toBe("Put 60% in equities, e.g. global ETFs");
+    expect(trimIncompleteSentence("Invest monthly. Put 60% in equities, e.g. global ETFs")).toBe("Invest monthly.");
+    expect(trimIncompleteSentence("Expect about 3.5 percent a year. Then buy")).toBe("Expect about 3.5 percent a year.");
+    expect(trimIncompleteSentence("Buy bonds. Keep cash, i.e.")).toBe("Buy bonds.");
+  });
+
+  it("keeps list items without punctuation", () => {
+    expect(trimIncompleteSentence("Plan:\n- Index funds\n- Bonds")).toBe("Plan:\n- Index funds\n- Bonds");
+  });
+});
+
+describe("collapseRepetition", () => {
+  it("collapses repeated phrases and sentences", () => {
+    expect(collapseRepetition("buy funds buy funds buy funds")).toBe("buy funds");
+    expect(collapseRepetition("Save often. Invest wisely. Save often.")).toBe("Save often. Invest wisely.");
+  });
+});
+
+describe("postprocessOutput", () => {
+  it("cleans up a recommendation", () => {
+    expect(postprocessOutput("Invest NIS 500 monthly in index funds. Then", "")).toEqual({
+      ok: true,
+      text: "Invest ₪500 monthly in index funds.",
+    });
+  });
+
+  it("rejects empty and repetitive output", () => {
+    expect(findDegenerateOutput("  ")).toBeDefined();
+    expect(postprocessOutput("ok", "")).toMatchObject({ ok: false });
+    expect(findDegenerateOutput("buy buy buy buy sell sell sell sell buy buy")).toMatch(/repetitive/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { MockProvider } from "@/lib/llm/mock";
+import { parsePredictRequest, predictCacheKey } from "@/lib/predict";
+
+const provider = new MockProvider(0);
+const profile = { age: 30, budget: 1000, goal: "Buy a house", riskLevel: "medium", timeHorizon: 10 };
+
+function cacheKey(body: object) {
+  const parsed = parsePredictRequest(body, provider);
+  if (!parsed.ok) throw new Error(parsed.error.error);
+  return { key: predictCacheKey(parsed.request, provider), prompt: parsed.request.prompt };
+}
+
+describe("predictCacheKey", () => {
+  it("shares a key between profiles that build the same prompt", () => {
+    const first = cacheKey({ profile });
+    const second = cacheKey({ profile: { ...profile, goal: "  buy a HOUSE " } });
+    expect(second.prompt).toBe(first.prompt);
+    expect(second.key).toBe(first.key);
+  });
+
+  it("gives different prompts different keys", () => {
+    const first = cacheKey({ profile });
+    const spaced = cacheKey({ profile: { ...profile, goal: "Buy a   house" } });
+    expect(spaced.prompt).not.toBe(first.prompt);
+    expect(spaced.key).not.toBe(first.key);
+  });
+
+  it("separates formats and generation options", () => {
+    const { key } = cacheKey({ profile });
+    expect(cacheKey({ profile, format: "plan" }).key).not.toBe(key);
+    expect(cacheKey({ profile, options: { temperature: 0.2 } }).key).not.toBe(key);
+  });
+});
@@ -0,0 +1,182 @@
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/predict/route";
+import { POST as POST_STREAM } from "@/app/api/predict/stream/route";
+import { getPythonWorkerPool } from "@/lib/python/workerPool";
+import { readSSE, type SSEEvent } from "@/lib/sse";
+
+// Each goal below makes tests/mockGenerate.mjs misbehave in one way; the
+// prompt built from the profile includes the goal
+const rules = [
+  { match: "model missing", error: "Failed to load model mock-model: not found.", code: "MODEL_UNAVAILABLE" },
+  { match: "worker crash", crash: true },
+  { match: "garbled output", malformed: true },
+  { match: "empty output", result: "" },
+  { match: "slow generation", delayMs: 3000 },
+  { match: "guardrail trip", result: "Use leverage to double your savings within two years." },
+  { match: "broken plan", result: "Here is a plan: buy things." },
+  {
+    match: '"allocations"',
+    echo: false,
+    result: JSON.stringify({
+      summary: "A balanced index portfolio.",
+      allocations: [
+        { assetClass: "Equities", percentage: 60, instruments: ["Global index ETF"] },
+        { assetClass: "Bonds", percentage: 40, instruments: ["Government bond fund"] },
+      ],
+      rebalancing: "annually",
+      rationale: "Equities for growth, bonds for stability.",
+      warnings: [],
+    }),
+  },
+];
+
+const profile = { age: 30, startingSavings: 5000, budget: 1000, goal: "retirement", riskLevel: "medium", timeHorizon: 20 };
+
+function post(body: unknown, headers: Record<string, string> = {}, url = "/api/predict") {
+  const req = new NextRequest(`http://localhost${url}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return (url === "/api/predict" ? POST : POST_STREAM)(req, {});
+}
+
+// Every event of a /api/predict/stream response
+async function stream(body: unknown) {
+  const res = await post(body, {}, "/api/predict/stream");
+  expect(res.status).toBe(200);
+  const events: SSEEvent[] = [];
+  await readSSE(res.body!, (event) => events.push(event));
+  return events;
+}
+
+beforeAll(() => {
+  vi.stubEnv("LLM_PROVIDER", "python");
+  vi.stubEnv("PYTHON_BIN", process.execPath);
+  vi.stubEnv("PYTHON_SCRIPT", path.join(__dirname, "mockGenerate.mjs"));
+  vi.stubEnv("PYTHON_MODEL", "mock-model");
+  vi.stubEnv("MOCK_GENERATE", JSON.stringify({ rules }));
+  vi.stubEnv("RESPONSE_CACHE_SIZE", "0");
+  vi.stubEnv("API_KEYS_FILE", path.join(__dirname, "no-api-keys.json"));
+});
+
+afterAll(async () => {
+  await getPythonWorkerPool().shutdown();
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/predict", () => {
+  afterEach(() => {
+    vi.stubEnv("GENERATION_TIMEOUT_MS", "");
+  });
+
+  it("returns the cleaned-up recommendation", async () => {
+    const res = await post({ profile });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Request-Id")).toBeTruthy();
+    const body = await res.json();
+    expect(body.result).toMatch(/^Invest your monthly budget/);
+    expect(body.result).not.toContain("careful financial planner");
+    expect(body).toMatchObject({ provider: "python", model: "mock-model", template: { version: 4 } });
+    expect(body.guardrails.disclaimer).toBeTruthy();
+  });
+
+  it("returns a validated plan", async () => {
+    const res = await post({ profile, format: "plan" });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.plan.allocations).toHaveLength(2);
+    expect(body.attempts).toBe(1);
+  });
+
+  describe("rejects invalid requests with a 400", () => {
+    it("for a body that isn't JSON", async () => {
+      const res = await post("{not json");
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: "Invalid JSON body.", code: "INVALID_INPUT", retryable: false });
+    });
+
+    it("for an invalid profile, with field errors", async () => {
+      const res = await post({ profile: { ...profile, age: -1, goal: "" } });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.code).toBe("INVALID_INPUT");
+      expect(Object.keys(body.fieldErrors)).toEqual(expect.arrayContaining(["age", "goal"]));
+    });
+
+    it("for an unknown model, with option errors", async () => {
+      const res = await post({ profile, options: { model: "gpt-17" } });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.optionErrors.model[0]).toMatch(/Unknown model "gpt-17"/);
+    });
+
+    it("for an unknown format", async () => {
+      const res = await post({ profile, format: "poem" });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it("rejects an unknown API key with a 401", async () => {
+    const res = await post({ profile }, { Authorization: "Bearer not-a-key" });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: "UNAUTHORIZED", retryable: false });
+  });
+
+  it.each([
+    ["model missing", 503, "MODEL_UNAVAILABLE"],
+    ["worker crash", 500, "GENERATION_FAILED"],
+    ["garbled output", 502, "INVALID_OUTPUT"],
+    ["empty output", 502, "INVALID_OUTPUT"],
+  ])("maps a %s to %i %s", async (goal, status, code) => {
+    const res = await post({ profile: { ...profile, goal } });
+    expect(res.status).toBe(status);
+    expect(await res.json()).toMatchObject({ code, retryable: true });
+  });
+
+  it("withholds a recommendation that fails the guardrails with a 422", async () => {
+    const res = await post({ profile: { ...profile, goal: "guardrail trip", riskLevel: "low", timeHorizon: 2 } });
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.code).toBe("GUARDRAIL_REJECTED");
+    expect(body.guardrails.findings.length).toBeGreaterThan(0);
+  });
+
+  it("answers a plan that never validates with a 502 and the issues", async () => {
+    const res = await post({ profile: { ...profile, goal: "broken plan" }, format: "plan" });
+    expect(res.status).toBe(502);
+    const body = await res.json();
+    expect(body.code).toBe("INVALID_OUTPUT");
+    expect(body.issues.length).toBeGreaterThan(0);
+    expect(body.raw).toContain("buy things");
+  });
+
+  it("times out a slow generation with a 504", async () => {
+    vi.stubEnv("GENERATION_TIMEOUT_MS", "300");
+    const res = await post({ profile: { ...profile, goal: "slow generation" } });
+    expect(res.status).toBe(504);
+    expect(await res.json()).toMatchObject({ code: "GENERATION_TIMEOUT", retryable: true });
+  });
+});
+
+describe("POST /api/predict/stream", () => {
+  it("streams tokens and ends with the same response as /api/predict", async () => {
+    const events = await stream({ profile });
+    expect(events.some((e) => e.event === "token")).toBe(true);
+    expect(events.at(-1)).toMatchObject({ event: "done", data: { provider: "python", template: { version: 4 } } });
+  });
+
+  it("ends with the same error details as /api/predict", async () => {
+    const events = await stream({ profile: { ...profile, goal: "broken plan" }, format: "plan" });
+    expect(events.filter((e) => e.event === "retry")).toHaveLength(2);
+    const { data } = events.at(-1) as { data: Record<string, unknown> };
+    expect(events.at(-1)?.event).toBe("error");
+    expect(data).toMatchObject({ code: "INVALID_OUTPUT", status: 502 });
+    expect(data.raw).toContain("buy things");
+
+    const [error] = await stream({ profile: { ...profile, goal: "empty output" } });
+    expect(error).toMatchObject({ event: "error", data: { code: "INVALID_OUTPUT", raw: expect.any(String) } });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { projectGrowth, riskAssumptions } from "@/lib/projection";
+
+// Closed form for monthly compounding with end-of-month contributions
+function futureValue(start: number, monthly: number, annualReturn: number, years: number) {
+  const rate = Math.pow(1 + annualReturn, 1 / 12) - 1;
+  const growth = Math.pow(1 + rate, years * 12);
+  return start * growth + (monthly * (growth - 1)) / rate;
+}
+
+describe("projectGrowth", () => {
+  it("compounds the starting balance and monthly contributions", () => {
+    const projection = projectGrowth({ startingSavings: 10000, monthlyContribution: 500, years: 20, riskLevel: "medium" });
+    const { expectedReturn } = riskAssumptions.medium;
+
+    expect(projection.expectedReturn).toBe(expectedReturn);
+    expect(projection.schedule).toHaveLength(21);
+    expect(projection.final.contributions).toBe(10000 + 500 * 12 * 20);
+    expect(projection.final.balance).toBeCloseTo(futureValue(10000, 500, expectedReturn, 20), 1);
+    expect(projection.final.growth).toBeCloseTo(projection.final.balance - projection.final.contributions, 1);
+    // A year of growth on the start alone adds exactly the annual return
+    expect(projectGrowth({ startingSavings: 1000, monthlyContribution: 0, years: 1, riskLevel: "high" }).final.balance).toBe(1070);
+  });
+
+  it("starts from zero when there are no savings", () => {
+    const projection = projectGrowth({ monthlyContribution: 1000, years: 10, riskLevel: "low", age: 30 });
+    expect(projection.schedule[0]).toEqual({ year: 0, age: 30, contributions: 0, growth: 0, balance: 0, realBalance: 0 });
+    expect(projection.final.age).toBe(40);
+    expect(projection.final.balance).toBeCloseTo(futureValue(0, 1000, riskAssumptions.low.expectedReturn, 10), 1);
+  });
+
+  it("only adds contributions at a zero return", () => {
+    const projection = projectGrowth({ monthlyContribution: 100, years: 5, riskLevel: "medium", expectedReturn: 0 });
+    expect(projection.schedule.map((year) => year.balance)).toEqual([0, 1200, 2400, 3600, 4800, 6000]);
+    expect(projection.final.growth).toBe(0);
+  });
+
+  it("deflates the balance into today's money", () => {
+    const projection = projectGrowth({
+      startingSavings: 1000,
+      monthlyContribution: 0,
+      years: 2,
+      riskLevel: "low",
+      expectedReturn: 0,
+      inflationRate: 0.1,
+    });
+    expect(projection.final.realBalance).toBeCloseTo(1000 / 1.21, 2);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { profileSchema, type Profile } from "@/lib/profile";
+import { buildPrompt, DEFAULT_TEMPLATE, parseTemplateSplit } from "@/lib/prompts";
+
+const profile: Profile = profileSchema.parse({
+  age: 30,
+  startingSavings: 5000,
+  budget: 1000,
+  goal: "retirement",
+  riskLevel: "medium",
+  timeHorizon: 20,
+});
+
+describe("buildPrompt", () => {
+  it("renders the default template", () => {
+    const { prompt, template } = buildPrompt(profile, undefined);
+    expect(template).toEqual(DEFAULT_TEMPLATE);
+    expect(prompt).toContain("Create a medium-risk investment strategy for a 30-year-old.");
+    expect(prompt).toContain("They already have ₪5000 saved to invest.");
+    expect(prompt).toContain("They can invest ₪1000 every month for 20 years.");
+    expect(prompt).toContain("The goal is retirement planning.");
+  });
+
+  it("pins the template named in the config", () => {
+    const { prompt, template } = buildPrompt(profile, "investment-strategy@1");
+    expect(template).toEqual({ id: "investment-strategy", version: 1 });
+    expect(prompt).toBe(
+      "Create a medium-risk investment strategy for a 30-year-old investing ₪1000 monthly for 20 years. The goal is retirement.",
+    );
+  });
+
+  it("writes amounts in the profile's currency without changing pinned versions", () => {
+    const dollars = { ...profile, currency: "USD" as const };
+    expect(buildPrompt(dollars, undefined).prompt).toContain("They can invest $1000 every month for 20 years.");
+    expect(buildPrompt(dollars, "investment-strategy@1").prompt).toBe(buildPrompt(profile, "investment-strategy@1").prompt);
+    expect(buildPrompt(dollars, "investment-strategy@2").prompt).toBe(buildPrompt(profile, "investment-strategy@2").prompt);
+  });
+
+  it("keeps custom goals as written", () => {
+    const { prompt } = buildPrompt({ ...profile, goal: "Sabbatical" }, undefined);
+    expect(prompt).toContain("The goal is sabbatical.");
+  });
+
+  it("describes the extended profile from version 3", () => {
+    const extended = {
+      ...profile,
+      monthlyIncome: 15000,
+      dependents: 2,
+      emergencyFund: "none" as const,
+      debts: [{ name: "Credit card", balance: 8000, interestRate: 18 }],
+    };
+    const v2 = buildPrompt(extended, "investment-strategy@2").prompt;
+    const v3 = buildPrompt(extended, "investment-strategy@3").prompt;
+    expect(v2).not.toContain("income");
+    expect(v3).toContain("Their monthly take-home income is ₪15000.");
+    expect(v3).toContain("They support 2 dependents.");
+    expect(v3).toContain("They have no emergency fund.");
+    expect(v3).toContain("Credit card, ₪8000 at 18% interest");
+    expect(v3).toContain("say whether to pay it down before investing more");
+  });
+
+  it("asks for a recommendation per goal when there are several", () => {
+    const { prompt } = buildPrompt(
+      { ...profile, additionalGoals: [{ goal: "house", timeHorizon: 5, priority: "high" }] },
+      undefined,
+    );
+    expect(prompt).toContain("They are saving for 2 goals at once");
+    expect(prompt).toContain("Give a separate recommendation for each goal");
+  });
+
+  it("gives the same profile the same template in a split", () => {
+    const split = "investment-strategy@1:50,investment-strategy@2:50";
+    expect(parseTemplateSplit(split)).toHaveLength(2);
+    const first = buildPrompt(profile, split).template;
+    for (let i = 0; i < 5; i++) {
+      expect(buildPrompt(profile, split).template).toEqual(first);
+    }
+  });
+});
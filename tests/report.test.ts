@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { buildReport, renderCsv, renderMarkdown, reportAmount, reportFilename, type ReportInput } from "@/lib/report";
+import { drawOrder, renderPdf } from "@/lib/reportPdf";
+
+const input: ReportInput = {
+  profile: {
+    age: 30,
+    budget: 1000,
+    goal: "דירה",
+    riskLevel: "medium",
+    timeHorizon: 10,
+    additionalGoals: [{ goal: "לימודים", timeHorizon: 5, priority: "medium" }],
+  },
+  result: "השקיעו ₪500 בחודש בקרן מחקה מדד.",
+};
+
+const generatedAt = new Date("2026-10-19T12:00:00Z");
+
+const planInput: ReportInput = {
+  profile: {
+    age: 30,
+    budget: 1000,
+    startingSavings: 5000,
+    goal: "house",
+    riskLevel: "medium",
+    timeHorizon: 2,
+    currency: "USD",
+    debts: [{ name: "Car loan", balance: 8000, interestRate: 6 }],
+  },
+  result: "{}",
+  plan: {
+    summary: "Mostly bonds for a short horizon.",
+    allocations: [
+      { assetClass: "Bonds", percentage: 80, instruments: ["Treasury | bond fund"] },
+      { assetClass: "Equities", percentage: 20, instruments: ["Index ETF"] },
+    ],
+    rebalancing: "quarterly",
+    rationale: "The money is needed soon.",
+    warnings: ["Pay the car loan down first."],
+  },
+  model: "mock-model",
+  template: { id: "investment-strategy", version: 4 },
+};
+
+describe("buildReport", () => {
+  it("describes the inputs in the profile's currency", () => {
+    const report = buildReport(planInput, "Not financial advice.", generatedAt);
+    expect(report.title).toBe("Investment recommendation: Buying a House");
+    expect(report.generatedBy).toBe("mock-model, prompt investment-strategy v4");
+    expect(report.inputs).toContainEqual({ label: "Monthly budget", value: "USD 1,000" });
+    expect(report.inputs).toContainEqual({ label: "Debts", value: "Car loan: USD 8,000 at 6%" });
+    expect(report.inputs.map((row) => row.label)).not.toContain("Target amount");
+    expect(report.projection.schedule).toHaveLength(3);
+    expect(report.goals).toEqual([]);
+    expect(reportFilename(report, "pdf")).toBe("investgpt-buying-a-house-2026-10-19.pdf");
+  });
+
+  it("lists each goal's share of the budget when there are several", () => {
+    const report = buildReport(input, "Not financial advice.", generatedAt);
+    expect(report.goals.map((goal) => goal.goal)).toEqual(["דירה", "לימודים"]);
+    expect(report.goals[1].detail).toMatch(/^5 years, medium priority: ILS [\d,]+\/month, projected ILS [\d,]+$/);
+  });
+
+  it("prefers the recommendation's own disclaimer", () => {
+    const guardrails = { findings: [], jurisdiction: "US" as const, disclaimer: "US disclaimer." };
+    expect(buildReport({ ...planInput, guardrails }, "Default.").disclaimer).toBe("US disclaimer.");
+    expect(reportAmount(1234.5)).toBe("ILS 1,235");
+  });
+});
+
+describe("renderMarkdown and renderCsv", () => {
+  const report = buildReport(planInput, "Not financial advice.", generatedAt);
+
+  it("renders the plan as Markdown tables", () => {
+    const markdown = renderMarkdown(report);
+    expect(markdown).toContain("# Investment recommendation: Buying a House");
+    expect(markdown).toContain("| Bonds | 80% | Treasury \\| bond fund |");
+    expect(markdown).toContain("### Warnings\n\n- Pay the car loan down first.");
+    expect(markdown).toContain("| Year | Age | Contributions (USD) |");
+    expect(markdown.trimEnd().endsWith("_Not financial advice._")).toBe(true);
+  });
+
+  it("renders the projection as CSV, one row per year", () => {
+    const [header, ...rows] = renderCsv(report).trimEnd().split("\n");
+    expect(header).toBe("Year,Age,Contributions (USD),Growth (USD),Balance (USD),Balance in today's money (USD)");
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toBe("0,30,5000,0,5000,5000");
+  });
+});
+
+describe("drawOrder", () => {
+  it("leaves Latin text alone", () => {
+    expect(drawOrder("Invest ILS 500 a month.")).toBe("Invest ILS 500 a month.");
+  });
+
+  it("reverses Hebrew runs inside a Latin line", () => {
+    // fontkit keeps a line that starts in Latin as it is
+    expect(drawOrder("Goal: דירה חדשה, 10 years")).toBe("Goal: השדח הריד, 10 years");
+  });
+
+  it("puts the runs of a Hebrew line right to left", () => {
+    expect(drawOrder("דירה ILS 500")).toBe("ILS 500 הריד");
+  });
+
+  it("undoes fontkit's own reversal of a line that starts in Hebrew", () => {
+    // fontkit reverses the whole line again, which gives ".500 הריד"
+    expect(drawOrder("דירה 500.")).toBe("דירה 005.");
+  });
+});
+
+describe("renderPdf", () => {
+  it("embeds a font that covers Hebrew and ₪ instead of Helvetica", async () => {
+    const pdf = (await renderPdf(buildReport(input, "Not financial advice."))).toString("latin1");
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+DejaVuSans\b/);
+    expect(pdf).toContain("/FontFile2");
+    expect(pdf).not.toContain("Helvetica");
+  });
+
+  it("renders a plan with its tables", async () => {
+    const pdf = await renderPdf(buildReport(planInput, "Not financial advice.", generatedAt));
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.toString("latin1").trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+});
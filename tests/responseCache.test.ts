@@ -0,0 +1,88 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { cacheModeFromRequest, ResponseCache, responseCacheKey } from "@/lib/responseCache";
+
+const dir = mkdtempSync(path.join(tmpdir(), "response-cache-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ResponseCache", () => {
+  it("evicts the least recently used entry", async () => {
+    const cache = new ResponseCache<string>({ maxEntries: 2, ttlMs: 60_000 });
+    await cache.set("a", "A");
+    await cache.set("b", "B");
+    expect(await cache.get("a")).toBe("A");
+    await cache.set("c", "C");
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toBe("A");
+    expect(await cache.get("c")).toBe("C");
+    expect(cache.stats()).toEqual({ entries: 2, maxEntries: 2 });
+  });
+
+  it("stops serving an entry once its TTL passes", async () => {
+    const cache = new ResponseCache<string>({ maxEntries: 10, ttlMs: 1000 });
+    await cache.set("a", "A", 0);
+    expect(await cache.get("a", 999)).toBe("A");
+    expect(await cache.get("a", 1000)).toBeUndefined();
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it("does nothing when disabled", async () => {
+    const sub = path.join(dir, "disabled");
+    const cache = new ResponseCache<string>({ maxEntries: 0, ttlMs: 1000, dir: sub });
+    await cache.set("a", "A");
+    expect(await cache.get("a")).toBeUndefined();
+    expect(existsSync(sub)).toBe(false);
+  });
+
+  it("keeps entries on disk across instances and drops expired files", async () => {
+    const sub = path.join(dir, "persisted");
+    await new ResponseCache<string>({ maxEntries: 10, ttlMs: 1000, dir: sub }).set("a", "A", 0);
+    expect(readdirSync(sub)).toEqual(["a.json"]);
+
+    const restarted = new ResponseCache<string>({ maxEntries: 10, ttlMs: 1000, dir: sub });
+    expect(await restarted.get("a", 500)).toBe("A");
+    expect(await new ResponseCache<string>({ maxEntries: 10, ttlMs: 1000, dir: sub }).get("a", 1000)).toBeUndefined();
+    expect(existsSync(path.join(sub, "a.json"))).toBe(false);
+  });
+
+  it("treats disk errors as misses", async () => {
+    const file = path.join(dir, "not-a-directory");
+    writeFileSync(file, "");
+    const cache = new ResponseCache<string>({ maxEntries: 10, ttlMs: 1000, dir: file });
+    await cache.set("a", "A");
+    expect(await cache.get("a")).toBe("A");
+    expect(await cache.get("b")).toBeUndefined();
+  });
+});
+
+describe("responseCacheKey", () => {
+  const parts = {
+    prompt: "Plan my retirement.",
+    template: { id: "investment-strategy", version: 4 },
+    provider: "python",
+    model: "mock-model",
+    params: { format: "text", temperature: 0.7 },
+  };
+
+  it("ignores the order of params but not their values", () => {
+    const key = responseCacheKey(parts);
+    expect(responseCacheKey({ ...parts, params: { temperature: 0.7, format: "text" } })).toBe(key);
+    expect(responseCacheKey({ ...parts, params: { format: "plan", temperature: 0.7 } })).not.toBe(key);
+    expect(responseCacheKey({ ...parts, template: { ...parts.template, version: 3 } })).not.toBe(key);
+  });
+});
+
+describe("cacheModeFromRequest", () => {
+  it("reads the cache parameter and Cache-Control", () => {
+    expect(cacheModeFromRequest(new Request("http://localhost/api/predict"))).toBe("default");
+    expect(cacheModeFromRequest(new Request("http://localhost/api/predict?cache=purge"))).toBe("purge");
+    expect(cacheModeFromRequest(new Request("http://localhost/api/predict?cache=bypass"))).toBe("bypass");
+    const noCache = new Request("http://localhost/api/predict", { headers: { "Cache-Control": "no-cache" } });
+    expect(cacheModeFromRequest(noCache)).toBe("bypass");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { assessRisk, getRecommendedRiskLevel, riskLevelForScore } from "@/lib/riskProfile";
+
+describe("getRecommendedRiskLevel", () => {
+  it.each([
+    [1, "low"],
+    [3, "low"],
+    [4, "medium"],
+    [7, "medium"],
+    [8, "high"],
+    [30, "high"],
+  ])("recommends %i years as %s risk", (timeHorizon, level) => {
+    expect(getRecommendedRiskLevel(timeHorizon)).toBe(level);
+  });
+});
+
+describe("riskLevelForScore", () => {
+  it("splits the score at 40 and 70", () => {
+    expect(riskLevelForScore(39)).toBe("low");
+    expect(riskLevelForScore(40)).toBe("medium");
+    expect(riskLevelForScore(69)).toBe("medium");
+    expect(riskLevelForScore(70)).toBe("high");
+  });
+});
+
+describe("assessRisk", () => {
+  it("follows the horizon rule without answers", () => {
+    for (const timeHorizon of [2, 5, 20]) {
+      const assessment = assessRisk({}, timeHorizon);
+      expect(assessment.level).toBe(getRecommendedRiskLevel(timeHorizon));
+      expect(assessment.cappedByHorizon).toBe(false);
+      expect(assessment.factors.map((f) => f.id)).toEqual(["horizon"]);
+    }
+  });
+
+  const tolerant = { lossReaction: "buy-more", incomeStability: "very-stable", experience: "advanced" } as const;
+
+  it("scores the answers along with the horizon", () => {
+    const assessment = assessRisk(tolerant, 20);
+    expect(assessment.score).toBe(100);
+    expect(assessment.level).toBe("high");
+    expect(assessment.factors).toHaveLength(4);
+  });
+
+  it("caps a tolerant investor at the horizon's level", () => {
+    const assessment = assessRisk(tolerant, 2);
+    // The short horizon also costs points, but not enough to reach "low"
+    expect(assessment.toleranceLevel).toBe("medium");
+    expect(assessment.horizonLevel).toBe("low");
+    expect(assessment.level).toBe("low");
+    expect(assessment.cappedByHorizon).toBe(true);
+  });
+
+  // Fully answered, the points are out of 18: 6 each for loss reaction and
+  // horizon, 3 each for income and experience
+  it.each([
+    { answers: { lossReaction: "sell-some", incomeStability: "variable", experience: "none" }, score: 39, level: "low" },
+    { answers: { lossReaction: "sell-some", incomeStability: "variable", experience: "basic" }, score: 44, level: "medium" },
+    { answers: { lossReaction: "hold", incomeStability: "stable", experience: "experienced" }, score: 67, level: "medium" },
+    { answers: { lossReaction: "hold", incomeStability: "stable", experience: "advanced" }, score: 72, level: "high" },
+  ] as const)("rates a score of $score as $level risk", ({ answers, score, level }) => {
+    const assessment = assessRisk(answers, 10);
+    expect(assessment.score).toBe(score);
+    expect(assessment.toleranceLevel).toBe(level);
+    expect(assessment.horizonLevel).toBe("high");
+    expect(assessment.level).toBe(level);
+  });
+
+  it.each([
+    [3, 0],
+    [4, 2],
+    [7, 2],
+    [8, 4],
+    [15, 4],
+    [16, 6],
+  ])("gives a %i-year horizon %i of 6 points", (timeHorizon, points) => {
+    const horizon = assessRisk(tolerant, timeHorizon).factors.find((f) => f.id === "horizon");
+    expect(horizon).toMatchObject({ answer: timeHorizon, points, maxPoints: 6 });
+  });
+
+  it("only counts the questions that were answered", () => {
+    // 6 of 6 for the loss reaction and 2 of 6 for the horizon
+    expect(assessRisk({ lossReaction: "buy-more" }, 5).score).toBe(67);
+  });
+
+  it("takes the lower of the tolerance and horizon levels", () => {
+    const medium = assessRisk(tolerant, 5);
+    expect(medium).toMatchObject({ toleranceLevel: "high", horizonLevel: "medium", level: "medium", cappedByHorizon: true });
+
+    const cautious = assessRisk({ lossReaction: "sell-all", incomeStability: "stable", experience: "basic" }, 5);
+    expect(cautious).toMatchObject({ toleranceLevel: "low", horizonLevel: "medium", level: "low", cappedByHorizon: false });
+  });
+
+  it("lowers the level for a cautious investor with a long horizon", () => {
+    const assessment = assessRisk({ lossReaction: "sell-all", incomeStability: "unstable", experience: "none" }, 20);
+    expect(assessment.level).toBe("low");
+    expect(assessment.cappedByHorizon).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeShareState,
+  encodeShareState,
+  shareTokenSchema,
+  shareUrl,
+  SHARE_VERSION,
+  type ShareState,
+} from "@/lib/share";
+
+const state: ShareState = {
+  profile: { age: 30, budget: 1000, goal: "דירה בתל אביב", riskLevel: "medium", timeHorizon: 10, currency: "ILS" },
+  customGoal: true,
+  riskOverride: false,
+  riskAnswers: { lossReaction: "hold" },
+  recommendation: { result: "Invest ₪1,000 a month.", model: "mock-model" },
+};
+
+describe("share tokens", () => {
+  it("round-trips the form state through a URL-safe token", async () => {
+    const token = await encodeShareState(state);
+    expect(token).toMatch(new RegExp(`^${SHARE_VERSION}\\.[\\w-]+$`));
+    expect(shareTokenSchema.safeParse(token).success).toBe(true);
+    expect(await decodeShareState(token)).toEqual(state);
+    expect(shareUrl("https://example.com", token)).toBe(`https://example.com/#s=${token}`);
+  });
+
+  it("leaves empty fields out of the token", async () => {
+    const withEmpty = { ...state, profile: { ...state.profile, debts: [], holdings: [] } };
+    expect(await encodeShareState(withEmpty)).toBe(await encodeShareState(state));
+  });
+
+  it("rejects tokens of another version, damaged tokens and invalid state", async () => {
+    const [, payload] = (await encodeShareState(state)).split(".");
+    expect(await decodeShareState(`${SHARE_VERSION + 1}.${payload}`)).toBeUndefined();
+    expect(await decodeShareState(`${SHARE_VERSION}.`)).toBeUndefined();
+    expect(await decodeShareState(`${SHARE_VERSION}.${payload.slice(0, -8)}`)).toBeUndefined();
+    expect(await decodeShareState("not a token")).toBeUndefined();
+    const invalid = await encodeShareState({ ...state, profile: { ...state.profile, age: -1 } });
+    expect(await decodeShareState(invalid)).toBeUndefined();
+    expect(shareTokenSchema.safeParse("1.abc/def").success).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/share/route";
+import { GET } from "@/app/s/[id]/route";
+import { routeLabel } from "@/lib/apiAccess";
+import { SHARE_HASH_PARAM } from "@/lib/share";
+import { ShareStore } from "@/lib/shareStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "shares-"));
+
+const share = async (token: string) => {
+  const res = await POST(
+    new NextRequest("http://localhost/api/share", {
+      method: "POST",
+      body: JSON.stringify({ token }),
+      headers: { "Content-Type": "application/json" },
+    }),
+    {},
+  );
+  expect(res.status).toBe(201);
+  return (await res.json()) as { id: string; url: string };
+};
+
+const open = (id: string) => GET(new NextRequest(`http://localhost/s/${id}`), { params: Promise.resolve({ id }) });
+
+beforeAll(() => {
+  vi.stubEnv("SHARE_DIR", dir);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("short share links", () => {
+  it("stores each link in its own file and reuses it for the same state", async () => {
+    const first = await share("1.first-token");
+    expect(await share("1.first-token")).toEqual(first);
+    const second = await share("1.second-token");
+    expect(second.id).not.toBe(first.id);
+    expect(readdirSync(dir).sort()).toEqual([`${first.id}.json`, `${second.id}.json`].sort());
+  });
+
+  it("redirects to the form with the stored state", async () => {
+    const { id } = await share("1.redirect-token");
+    const res = await open(id);
+    expect(res.status).toBe(307);
+    expect(res.headers.get("location")).toBe(`http://localhost/#${SHARE_HASH_PARAM}=1.redirect-token`);
+    expect(res.headers.get("x-request-id")).toBeTruthy();
+  });
+
+  it("answers 404 for unknown or malformed ids", async () => {
+    const res = await open("unknownid0");
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ code: "NOT_FOUND", retryable: false });
+    expect((await open("../secrets")).status).toBe(404);
+  });
+
+  it("reports a store failure as a storage error", async () => {
+    vi.spyOn(ShareStore.prototype, "get").mockRejectedValueOnce(new Error("disk unavailable"));
+    const res = await open("anyid00000");
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ code: "STORAGE_ERROR", error: "disk unavailable", retryable: true });
+  });
+
+  it("labels every short link as one metrics route", () => {
+    expect(routeLabel("/s/abcdefghij")).toBe("/s/:id");
+    expect(routeLabel("/api/share")).toBe("/api/share");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PATHS, simulate, type SimulationInput } from "@/lib/simulation";
+
+const input: SimulationInput = {
+  startingSavings: 10000,
+  monthlyContribution: 500,
+  years: 15,
+  riskLevel: "medium",
+  targetAmount: 150000,
+  paths: 500,
+};
+
+describe("simulate", () => {
+  it("reproduces a run from its seed", () => {
+    const first = simulate({ ...input, seed: 42 });
+    expect(simulate({ ...input, seed: 42 })).toEqual(first);
+    expect(simulate({ ...input, seed: first.seed })).toEqual(first);
+  });
+
+  it("gives different percentiles for a different seed", () => {
+    const first = simulate({ ...input, seed: 42 });
+    const second = simulate({ ...input, seed: 43 });
+    expect(second.schedule[15]).not.toEqual(first.schedule[15]);
+    expect(second.schedule[0]).toEqual(first.schedule[0]);
+  });
+
+  it("reports a seed for unseeded runs", () => {
+    const result = simulate({ ...input, paths: undefined, targetAmount: undefined });
+    expect(result.paths).toBe(DEFAULT_PATHS);
+    expect(Number.isInteger(result.seed)).toBe(true);
+    expect(result.successProbability).toBeUndefined();
+    expect(simulate({ ...input, paths: undefined, targetAmount: undefined, seed: result.seed })).toEqual(result);
+  });
+
+  it("orders the percentiles and estimates the chance of reaching the target", () => {
+    const result = simulate({ ...input, seed: 7 });
+    expect(result.schedule).toHaveLength(16);
+    for (const { p10, p50, p90 } of result.schedule.slice(1)) {
+      expect(p10).toBeLessThan(p50);
+      expect(p50).toBeLessThan(p90);
+    }
+    expect(result.successProbability).toBeGreaterThan(0);
+    expect(result.successProbability).toBeLessThan(1);
+  });
+});
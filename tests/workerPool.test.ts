@@ -0,0 +1,189 @@
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { PythonProvider } from "@/lib/llm/python";
+import { getPythonWorkerPool, PythonWorkerPool, type WorkerPoolOptions } from "@/lib/python/workerPool";
+
+const MOCK_GENERATE = path.join(__dirname, "mockGenerate.mjs");
+
+const pools: PythonWorkerPool[] = [];
+
+// A pool of mock workers scripted with `config` (see tests/mockGenerate.mjs)
+function startPool(config: object = {}, options: Partial<WorkerPoolOptions> = {}) {
+  const pool = new PythonWorkerPool({
+    size: 1,
+    command: process.execPath,
+    args: [MOCK_GENERATE, JSON.stringify(config)],
+    restartDelayMs: 20,
+    shutdownGraceMs: 1000,
+    ...options,
+  });
+  pools.push(pool);
+  return pool;
+}
+
+afterEach(async () => {
+  await Promise.all(pools.splice(0).map((pool) => pool.shutdown()));
+});
+
+describe("PythonWorkerPool", () => {
+  it("resolves with the worker's result line", async () => {
+    const pool = startPool({ rules: [{ result: "Buy index funds." }] });
+    const message = await pool.request({ prompt: "Advise me.", model: "tiny" });
+    expect(message.result).toBe("Advise me. Buy index funds.");
+    expect(message.model).toBe("tiny");
+    expect(message.error).toBeUndefined();
+  });
+
+  it("streams generated tokens, without the prompt, before the result", async () => {
+    const pool = startPool({ rules: [{ result: "Buy index funds." }] });
+    const tokens: string[] = [];
+    const message = await pool.request({ prompt: "Advise me." }, { onToken: (token) => tokens.push(token) });
+    expect(tokens).toEqual(["Buy ", "index ", "funds."]);
+    expect(message.result).toBe("Advise me. Buy index funds.");
+  });
+
+  it("answers queued requests in order on a single worker", async () => {
+    const pool = startPool({ rules: [{ delayMs: 20, result: "done" }] });
+    const results = await Promise.all(["first", "second", "third"].map((prompt) => pool.request({ prompt })));
+    expect(results.map((message) => message.result)).toEqual(["first done", "second done", "third done"]);
+  });
+
+  it("passes on the error code generate.py sends", async () => {
+    const pool = startPool({ rules: [{ match: "bigmodel", error: "Failed to load model bigmodel.", code: "MODEL_UNAVAILABLE" }] });
+    expect(await pool.request({ prompt: "Use bigmodel." })).toMatchObject({
+      error: "Failed to load model bigmodel.",
+      code: "MODEL_UNAVAILABLE",
+    });
+    expect(await pool.request({ prompt: "   " })).toMatchObject({ code: "INVALID_INPUT" });
+  });
+
+  it("skips lines that aren't JSON", async () => {
+    const pool = startPool({ rules: [{ malformed: true }] });
+    const message = await pool.request({ prompt: "Advise me." });
+    expect(message.result).toEqual({ unexpected: true });
+  });
+
+  it("fails the job of a worker that crashes, then restarts it", async () => {
+    const pool = startPool({ rules: [{ match: "crash", crash: true }] });
+    const failed = await pool.request({ prompt: "Please crash." });
+    expect(failed.code).toBe("GENERATION_FAILED");
+    expect(failed.error).toMatch(/exited unexpectedly \(code 1\)/);
+
+    const recovered = await pool.request({ prompt: "Advise me." });
+    expect(recovered.result).toMatch(/^Advise me\. /);
+    expect(pool.stats().restarts).toBe(1);
+  });
+
+  it("reports a model that fails to load as unavailable", async () => {
+    const pool = startPool({ loadError: "no such repo" }, { restartDelayMs: 60_000 });
+    const first = await pool.request({ prompt: "Advise me." });
+    expect(first).toMatchObject({ error: "Failed to load model: no such repo", code: "MODEL_UNAVAILABLE" });
+    // With the worker gone, later requests fail fast instead of queueing
+    const second = await pool.request({ prompt: "Advise me." });
+    expect(second).toMatchObject({ code: "MODEL_UNAVAILABLE" });
+  });
+
+  it("reports a missing interpreter as unavailable", async () => {
+    const pool = startPool({}, { command: path.join(__dirname, "no-such-python") });
+    const message = await pool.request({ prompt: "Advise me." });
+    expect(message.code).toBe("MODEL_UNAVAILABLE");
+    expect(message.error).toMatch(/Could not start the Python worker .*ENOENT/);
+  });
+
+  it("times out a hung generation and replaces its worker", async () => {
+    const pool = startPool({ rules: [{ match: "slow", delayMs: 5000 }] });
+    const message = await pool.request({ prompt: "Be slow." }, { deadline: Date.now() + 200 });
+    expect(message).toMatchObject({ error: "Generation timed out.", code: "GENERATION_TIMEOUT" });
+
+    const recovered = await pool.request({ prompt: "Advise me." });
+    expect(recovered.result).toBeDefined();
+    expect(pool.stats().restarts).toBe(1);
+  });
+
+  it("cancels a generation when the signal aborts", async () => {
+    const pool = startPool({ rules: [{ tokenDelayMs: 50 }] });
+    const controller = new AbortController();
+    const pending = pool.request({ prompt: "Advise me." }, { signal: controller.signal, onToken: () => controller.abort() });
+    expect(await pending).toMatchObject({ code: "GENERATION_CANCELLED" });
+  });
+
+  it("replaces a worker that never finishes a cancelled generation", async () => {
+    const pool = startPool({ rules: [{ match: "slow", delayMs: 5000 }] }, { cancelGraceMs: 100 });
+    const controller = new AbortController();
+    const pending = pool.request({ prompt: "Be slow." }, { signal: controller.signal });
+    controller.abort();
+    expect(await pending).toMatchObject({ code: "GENERATION_CANCELLED" });
+
+    const recovered = await pool.request({ prompt: "Advise me." });
+    expect(recovered.result).toBeDefined();
+    expect(pool.stats().restarts).toBe(1);
+  });
+});
+
+// Parses the worker's lines into generation results, through the shared pool
+describe("PythonProvider", () => {
+  const provider = new PythonProvider({ model: "mock-model", models: [] });
+
+  beforeAll(() => {
+    vi.stubEnv("PYTHON_BIN", process.execPath);
+    vi.stubEnv("PYTHON_SCRIPT", MOCK_GENERATE);
+    vi.stubEnv(
+      "MOCK_GENERATE",
+      JSON.stringify({
+        rules: [
+          { match: "malformed", malformed: true },
+          { match: "unknown code", error: "Something odd.", code: "NOT_A_CODE" },
+          { match: "oom", error: "CUDA out of memory.", code: "GENERATION_FAILED" },
+          { result: "Buy index funds." },
+        ],
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await getPythonWorkerPool().shutdown();
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the generated text and model", async () => {
+    expect(await provider.generate({ prompt: "Advise me." })).toEqual({
+      ok: true,
+      text: "Advise me. Buy index funds.",
+      provider: "python",
+      model: "mock-model",
+    });
+  });
+
+  it("reports a result that isn't text as invalid output", async () => {
+    expect(await provider.generate({ prompt: "Be malformed." })).toMatchObject({
+      ok: false,
+      code: "INVALID_OUTPUT",
+      error: "No valid JSON output from Python script.",
+    });
+  });
+
+  it("keeps the code of an error line", async () => {
+    expect(await provider.generate({ prompt: "Run oom." })).toMatchObject({
+      ok: false,
+      code: "GENERATION_FAILED",
+      error: "CUDA out of memory.",
+    });
+  });
+
+  it("treats unknown codes as a failed generation", async () => {
+    expect(await provider.generate({ prompt: "Send an unknown code." })).toMatchObject({
+      ok: false,
+      code: "GENERATION_FAILED",
+      error: "Something odd.",
+    });
+  });
+
+  it("reports an aborted request as cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await provider.generate({ prompt: "Advise me.", signal: controller.signal })).toMatchObject({
+      ok: false,
+      code: "GENERATION_CANCELLED",
+    });
+  });
+});
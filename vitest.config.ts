@@ -0,0 +1,21 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Tests live in tests/ and run offline: generate.py is replaced by
+// tests/mockGenerate.mjs and the browser by jsdom in component tests.
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}"],
+    environment: "node",
+    setupFiles: ["tests/setup.ts"],
+    // Only failures the tests provoke on purpose, e.g. crashing workers
+    env: { LOG_LEVEL: "error" },
+    // Each file starts its own worker pool and server state
+    isolate: true,
+    testTimeout: 15000,
+  },
+});